@@ -2,23 +2,59 @@
  * LINE Webhook Handler
  *
  * Handles:
+ * - Follow / unfollow events: Register automatically / deactivate
+ * - Join / leave events: Explain group registration / deactivate the group
  * - "start" command: Register user for notifications
  * - "on" command: Enable monitoring
  * - "off" command: Disable monitoring
  * - "status" command: Show current status
  * - Date commands: Set target date for monitoring (e.g., "1/15", "2025-01-15")
  * - "clear" command: Clear target date
+ * - Facility commands: Register, list, remove and select SelectType facilities
+ *   (the registry is shared, so only the owner may register or remove)
+ * - "時間" command: Limit monitored slots to a time-of-day window
+ * - "N分後に再通知" command: Re-send a target's open slots later
+ * - "通知後" command: Remove a date or pause monitoring after an alert
+ * - "履歴" command: Show the recent open/close timeline of a facility or date
+ *
+ * - Postbacks from buttons and the date picker: Add/remove a date,
+ *   enable/disable monitoring and snooze (same operations as the text),
+ *   and "予約できた" to stop watching a booked date
+ *
+ * Every command acts on the subscription of the chat it was sent in
+ * (subscribers/{id}, where id is the userId, groupId or roomId). In group
+ * and room chats, only the member who registered the chat and members
+ * they approved ("参加") may change settings.
  */
 
 import { onRequest } from "firebase-functions/v2/https";
-import { defineSecret } from "firebase-functions/params";
+import { defineSecret, defineString } from "firebase-functions/params";
 import { logger } from "firebase-functions/v2";
-import type { LineWebhookBody, LineEvent } from "../types/index.js";
+import type {
+  LineWebhookBody,
+  LineEvent,
+  LineAction,
+  LineDatetimePickerAction,
+  LineFlexMessage,
+  AfterFoundMode,
+  ChatTarget,
+  DateRule,
+  FacilityDoc,
+  RenotifyPolicy,
+  TargetDate,
+} from "../types/index.js";
 import {
   verifySignature,
   replyMessage,
-  setLineTarget,
+  getChatTarget,
+  registerSubscriber,
+  addChatMember,
+  canChangeChatSettings,
+  getChatMembers,
+  deactivateSubscriber,
+  getSubscriber,
   setWatchEnabled,
+  pauseWatch,
   setIntervalMinutes,
   addTargetDate,
   removeTargetDate,
@@ -26,127 +62,1706 @@ import {
   getWatchConfig,
   getWatchState,
   ensureWatchConfig,
+  setSelectedFacility,
+  getFacility,
+  listFacilities,
+  saveFacility,
+  deleteFacility,
+  parseSelectTypeId,
+  getIntervalMinutes,
+  parseResumeTime,
+  MAX_PAUSE_HOURS,
+  setTimeWindow,
+  setQuietHours,
+  setRenotifyPolicy,
+  setNotifyClosed,
+  setAfterFoundMode,
+  setTargetAfterFoundMode,
+  parseAfterFoundMode,
+  AFTER_FOUND_LABELS,
+  setTargetTimeWindow,
+  parseTimeWindow,
+  formatTimeWindow,
+  targetKey,
+  allDatesKey,
+  setReminder,
+  buildInfoMessage,
+  encodePostback,
+  parsePostback,
+  getHistoryEvents,
+  getOpenIntervals,
+  aggregateOpenings,
+  findPeakWindow,
+  LEAD_TIME_BUCKETS,
+  addDateRule,
+  removeDateRule,
+  parseDateRule,
+  formatDateRule,
+  expandDateRule,
+  expandDateRange,
+  isWatchingAllDates,
+  BOOKABLE_HORIZON_DAYS,
+  parseDate,
+  parseDateInput,
+  parseDateExpression,
+  parseDateRange,
+  parseMultipleDates,
+  DATE_SEPARATOR,
+  getTodayJST,
+  formatMonthDay,
+  formatTimestampJST,
+  WEEKDAY_CHARS,
+  DEFAULT_FACILITY_ID,
+} from "../lib/index.js";
+import type {
+  DateInputError,
+  DateRulePattern,
+  InfoSection,
+  PostbackCommand,
 } from "../lib/index.js";
 
 /**
- * Parses various date formats and returns YYYY-MM-DD format.
- * Supports:
- * - "1/15" or "01/15" (assumes current year)
- * - "2025/1/15" or "2025/01/15"
- * - "1-15" or "01-15" (assumes current year)
- * - "2025-1-15" or "2025-01-15"
- *
- * @returns YYYY-MM-DD string or null if invalid
+ * Formats a date string for display.
+ */
+function formatDateForDisplay(dateStr: string): string {
+  const [year, month, day] = dateStr.split("-");
+  return `${year}年${parseInt(month, 10)}月${parseInt(day, 10)}日`;
+}
+
+/**
+ * Formats multiple target dates for display with their facility labels.
+ *
+ * @param notBookableTargets - Target keys to mark as not yet bookable
+ */
+function formatTargetsForDisplay(
+  targets: TargetDate[],
+  facilities: FacilityDoc[],
+  notBookableTargets: string[] = []
+): string {
+  return targets
+    .map((t) => {
+      const label =
+        facilities.find((f) => f.name === t.facilityId)?.label ?? t.facilityId;
+      const window = t.timeWindow ? ` ${formatTimeWindow(t.timeWindow)}` : "";
+      const afterFound = t.afterFound
+        ? ` 通知後${AFTER_FOUND_LABELS[t.afterFound]}`
+        : "";
+      const notBookable = notBookableTargets.includes(targetKey(t))
+        ? " ※予約受付前"
+        : "";
+      return (
+        `${formatDateForDisplay(t.date)}（${label}）` +
+        `${window}${afterFound}${notBookable}`
+      );
+    })
+    .join("\n");
+}
+
+/**
+ * Explains why a date in a command was rejected.
+ */
+function formatDateError(input: string, error: DateInputError): string {
+  return error === "invalid"
+    ? `「${input}」は存在しない日付です。`
+    : `「${input}」は過去の日付です。今日以降の日付を指定してください。`;
+}
+
+/** Upcoming dates listed per rule */
+const RULE_DATES_SHOWN = 10;
+
+/**
+ * Formats a rule with its facility and the dates it expands to.
+ * Example: "毎週土曜（サウナ）: 1/18 1/25 2/1"
+ */
+function formatRuleForDisplay(
+  rule: DateRule,
+  facilities: FacilityDoc[],
+  today: string
+): string {
+  const label =
+    facilities.find((f) => f.name === rule.facilityId)?.label ??
+    rule.facilityId;
+  const dates = expandDateRule(rule, today);
+  const shown = dates.slice(0, RULE_DATES_SHOWN).map(formatMonthDay);
+  const more =
+    dates.length > RULE_DATES_SHOWN
+      ? ` ほか${dates.length - RULE_DATES_SHOWN}件`
+      : "";
+  return (
+    `${formatDateRule(rule)}（${label}）: ` +
+    (dates.length > 0 ? `${shown.join(" ")}${more}` : "対象日なし")
+  );
+}
+
+/**
+ * Handles facility registry commands.
+ * The registry is shared by every subscriber, so only the owner
+ * (OWNER_LINE_USER_ID) may register or remove facilities.
+ *
+ * @param targetId - Chat whose selected facility is used
+ * @param subcommand - "一覧", "追加", "削除" or "" (select)
+ * @param args - Remaining text after the subcommand
+ * @param senderId - userId of the sender (absent if LINE did not provide it)
+ */
+async function handleFacilityCommand(
+  targetId: string,
+  subcommand: string,
+  args: string,
+  senderId: string | undefined,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const parts = args.split(/[\s　]+/).filter((p) => p.length > 0);
+
+  const isRegistryWrite = subcommand === "追加" || subcommand === "削除";
+  const owner = ownerUserId.value();
+  if (isRegistryWrite && (!owner || senderId !== owner)) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "施設の登録・削除は管理者だけが行えます。\n" +
+        "登録済みの施設は「施設一覧」で確認できます。"
+    );
+    logger.warn("Facility registry write refused", { targetId, senderId });
+    return;
+  }
+
+  switch (subcommand) {
+    case "一覧": {
+      const facilities = await listFacilities();
+      const config = await getWatchConfig(targetId);
+      const selectedId = config?.facilityId ?? DEFAULT_FACILITY_ID;
+      const lines = facilities.map(
+        (f) =>
+          `${f.name === selectedId ? "▶" : "・"}${f.label}（${f.name}）`
+      );
+      await replyMessage(
+        accessToken,
+        replyToken,
+        `【登録済みの施設】\n${lines.join("\n")}\n\n` +
+          "「施設 名前」で日付を追加する施設を選択"
+      );
+      return;
+    }
+
+    case "追加": {
+      const [name, rawId, ...labelParts] = parts;
+      const selectTypeId = rawId ? parseSelectTypeId(rawId) : null;
+      if (!name || !selectTypeId || name.includes("/")) {
+        await replyMessage(
+          accessToken,
+          replyToken,
+          "施設の登録形式が正しくありません。\n\n" +
+            "例: 「施設追加 sauna2 0AEeQuFE0HM 第2サウナ」\n" +
+            "※IDは予約ページURLの id= の値（URLそのままでも可）"
+        );
+        return;
+      }
+      const label = labelParts.length > 0 ? labelParts.join(" ") : name;
+      await saveFacility({ name, selectTypeId, label });
+      await replyMessage(
+        accessToken,
+        replyToken,
+        `施設「${label}」（${name}）を登録しました。\n\n` +
+          `「施設 ${name}」で選択すると、日付がこの施設に追加されます。`
+      );
+      return;
+    }
+
+    case "削除": {
+      const name = parts[0];
+      if (!name) {
+        await replyMessage(
+          accessToken,
+          replyToken,
+          "削除する施設の名前を指定してください。\n例: 「施設削除 sauna2」"
+        );
+        return;
+      }
+      if (name === DEFAULT_FACILITY_ID) {
+        await replyMessage(
+          accessToken,
+          replyToken,
+          "標準の施設は削除できません。"
+        );
+        return;
+      }
+      const deleted = await deleteFacility(name);
+      if (deleted) {
+        const config = await getWatchConfig(targetId);
+        if (config?.facilityId === name) {
+          await setSelectedFacility(targetId, DEFAULT_FACILITY_ID);
+        }
+      }
+      await replyMessage(
+        accessToken,
+        replyToken,
+        deleted
+          ? `施設「${name}」を削除しました。\nこの施設の監視日は通知されなくなります。`
+          : `施設「${name}」は登録されていません。`
+      );
+      return;
+    }
+
+    default: {
+      const name = parts[0];
+      const facility = name ? await getFacility(name) : null;
+      if (!facility) {
+        await replyMessage(
+          accessToken,
+          replyToken,
+          name
+            ? `施設「${name}」は登録されていません。\n「施設一覧」で確認してください。`
+            : "施設の名前を指定してください。\n例: 「施設 sauna2」"
+        );
+        return;
+      }
+      await setSelectedFacility(targetId, facility.name);
+      await replyMessage(
+        accessToken,
+        replyToken,
+        `施設「${facility.label}」を選択しました。\n` +
+          "これから追加する日付はこの施設で監視します。"
+      );
+      return;
+    }
+  }
+}
+
+/**
+ * Handles the time window command.
+ *
+ * @param targetId - Chat whose settings are updated
+ * @param args - "18:00-21:00", "1/15 18:00-21:00", "解除" or "1/15 解除",
+ *   where a date may be followed by a facility name ("1/15 解除 sauna2")
+ */
+async function handleTimeWindowCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const parts = args.split(/[\s　]+/).filter((p) => p.length > 0);
+  const dateArg = parts.length >= 2 ? parts[0] : null;
+  const windowArg = parts.length >= 2 ? parts[1] : parts[0];
+  const facilityArg = parts[2];
+  const clear = windowArg === "解除";
+  const window = windowArg && !clear ? parseTimeWindow(windowArg) : null;
+
+  if (parts.length === 0 || parts.length > 3 || (!clear && !window)) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "時間帯の形式が正しくありません。\n\n" +
+        "例: 「時間 18:00-21:00」「時間 1/15 18:00-21:00」" +
+        "「時間 1/15 18:00-21:00 sauna2」「時間 解除」"
+    );
+    return;
+  }
+
+  const windowText = window ? formatTimeWindow(window) : "";
+
+  if (!dateArg) {
+    await setTimeWindow(targetId, window);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      window
+        ? `監視する時間帯を ${windowText} に設定しました。\n` +
+            "この時間帯に始まる枠だけを通知します。"
+        : "時間帯の指定を解除しました。\n全ての時間の枠を通知します。"
+    );
+    return;
+  }
+
+  const parsed = parseDateInput(dateArg, getTodayJST());
+  if (!parsed || "error" in parsed) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      parsed
+        ? formatDateError(dateArg, parsed.error)
+        : "日付の形式が正しくありません。\n例: 「時間 1/15 18:00-21:00」"
+    );
+    return;
+  }
+  const parsedDate = parsed.date;
+
+  const config = await getWatchConfig(targetId);
+  const facilityId =
+    facilityArg ?? config?.facilityId ?? DEFAULT_FACILITY_ID;
+  const updated = await setTargetTimeWindow(
+    targetId,
+    parsedDate,
+    facilityId,
+    window
+  );
+  const displayDate = formatDateForDisplay(parsedDate);
+  if (!updated) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `${displayDate} は監視対象に含まれていません。\n先に日付を追加してください。`
+    );
+    return;
+  }
+  await replyMessage(
+    accessToken,
+    replyToken,
+    window
+      ? `${displayDate} の時間帯を ${windowText} に設定しました。`
+      : `${displayDate} の時間帯の指定を解除しました。`
+  );
+}
+
+/**
+ * Handles the quiet hours command.
+ *
+ * @param targetId - Chat whose settings are updated
+ * @param args - "23:00-7:00", "解除", or empty to show the setting
+ */
+async function handleQuietHoursCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  if (args.length === 0) {
+    const config = await getWatchConfig(targetId);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      config?.quietHours
+        ? `おやすみ時間は ${formatTimeWindow(config.quietHours)} です。\n` +
+            "解除するには「おやすみ 解除」と送信してください。"
+        : "おやすみ時間は設定されていません。\n例: 「おやすみ 23:00-7:00」"
+    );
+    return;
+  }
+
+  if (args === "解除") {
+    await setQuietHours(targetId, null);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "おやすみ時間を解除しました。\n空きが出たらいつでもすぐに通知します。"
+    );
+    return;
+  }
+
+  const window = parseTimeWindow(args);
+  if (!window) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "おやすみ時間の形式が正しくありません。\n\n" +
+        "例: 「おやすみ 23:00-7:00」「おやすみ 解除」"
+    );
+    return;
+  }
+  await setQuietHours(targetId, window);
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `おやすみ時間を ${formatTimeWindow(window)} に設定しました。\n` +
+      "この時間に見つかった空きは通知せずに記録し、" +
+      "終わった後にまとめて送ります（まだ空いているかも表示します）。"
+  );
+}
+
+/** What each after-found mode does, for replies */
+const AFTER_FOUND_DESCRIPTIONS: Record<AfterFoundMode, string> = {
+  keep: "通知した後も監視を続けます",
+  remove: "最初の通知の後に日付を監視対象から削除します",
+  pause: "最初の通知の後に監視を停止します",
+};
+
+/**
+ * Handles the command that chooses what happens after a date's first
+ * alert.
+ *
+ * @param targetId - Chat whose settings are updated
+ * @param args - "削除", "停止", "継続" or "解除", optionally after a date
+ *   ("1/15 削除") that may be followed by a facility name
+ *   ("1/15 削除 sauna2"), or empty to show the setting
+ */
+async function handleAfterFoundCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const parts = args.split(/[\s　]+/).filter((p) => p.length > 0);
+  if (parts.length === 0) {
+    const config = await getWatchConfig(targetId);
+    const mode = config?.afterFound ?? "keep";
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `通知後の動作: ${AFTER_FOUND_LABELS[mode]}` +
+        `（${AFTER_FOUND_DESCRIPTIONS[mode]}）\n\n` +
+        "例: 「通知後 削除」「通知後 停止」「通知後 1/15 削除」"
+    );
+    return;
+  }
+
+  const dateArg = parts.length >= 2 ? parts[0] : null;
+  const modeArg = parts.length >= 2 ? parts[1] : parts[0];
+  const facilityArg = parts[2];
+  const clear = modeArg === "解除";
+  const mode = clear ? null : parseAfterFoundMode(modeArg);
+  if (parts.length > 3 || (!clear && !mode)) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "通知後の動作は「削除」「停止」「継続」から指定してください。\n\n" +
+        "例: 「通知後 削除」「通知後 1/15 停止」「通知後 1/15 停止 sauna2」" +
+        "「通知後 解除」"
+    );
+    return;
+  }
+
+  if (!dateArg) {
+    // "継続" is the default, so it is stored as no setting
+    const globalMode = mode === "keep" ? null : mode;
+    await setAfterFoundMode(targetId, globalMode);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `通知後の動作を「${AFTER_FOUND_LABELS[globalMode ?? "keep"]}」に` +
+        `設定しました。\n${AFTER_FOUND_DESCRIPTIONS[globalMode ?? "keep"]}。`
+    );
+    logger.info("After-found mode updated", { targetId, mode: globalMode });
+    return;
+  }
+
+  const parsed = parseDateInput(dateArg, getTodayJST());
+  if (!parsed || "error" in parsed) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      parsed
+        ? formatDateError(dateArg, parsed.error)
+        : "日付の形式が正しくありません。\n例: 「通知後 1/15 削除」"
+    );
+    return;
+  }
+
+  const config = await getWatchConfig(targetId);
+  const facilityId =
+    facilityArg ?? config?.facilityId ?? DEFAULT_FACILITY_ID;
+  const updated = await setTargetAfterFoundMode(
+    targetId,
+    parsed.date,
+    facilityId,
+    mode
+  );
+  const displayDate = formatDateForDisplay(parsed.date);
+  if (!updated) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `${displayDate} は監視対象に含まれていません。\n先に日付を追加してください。`
+    );
+    return;
+  }
+  await replyMessage(
+    accessToken,
+    replyToken,
+    mode
+      ? `${displayDate} の通知後の動作を「${AFTER_FOUND_LABELS[mode]}」に` +
+          `設定しました。\n${AFTER_FOUND_DESCRIPTIONS[mode]}。`
+      : `${displayDate} の通知後の動作の指定を解除しました。`
+  );
+  logger.info("Target after-found mode updated", {
+    targetId,
+    targetDate: parsed.date,
+    facilityId,
+    mode,
+  });
+}
+
+// Quick-reply actions offered after commands
+const QUICK_REGISTER: LineAction = { type: "message", label: "登録", text: "登録" };
+const QUICK_START: LineAction = { type: "message", label: "開始", text: "開始" };
+const QUICK_STOP: LineAction = { type: "message", label: "停止", text: "停止" };
+const QUICK_STATUS: LineAction = { type: "message", label: "状態", text: "状態" };
+const QUICK_JOIN: LineAction = { type: "message", label: "参加", text: "参加" };
+const QUICK_HELP: LineAction = { type: "message", label: "使い方", text: "使い方" };
+
+/**
+ * Builds the quick-reply date picker that adds a target date.
+ * Past dates cannot be picked.
+ */
+function datePickerAction(): LineDatetimePickerAction {
+  const todayJST = getTodayJST();
+  return {
+    type: "datetimepicker",
+    label: "日付を選んで追加",
+    data: encodePostback({ action: "addDate" }),
+    mode: "date",
+    initial: todayJST,
+    min: todayJST,
+  };
+}
+
+/** Command list shown by "使い方" */
+const HELP_SECTIONS: InfoSection[] = [
+  { title: "■ 初期設定", lines: ["「登録」: 通知を受け取る登録"] },
+  {
+    title: "■ 監視の開始・停止",
+    lines: [
+      "「開始」: 監視を開始",
+      "「停止」: 監視を停止",
+      "「停止 2時間」「停止 21:00まで」: 一時停止して自動で再開",
+    ],
+  },
+  {
+    title: "■ 監視日の管理（複数可）",
+    lines: [
+      "「1/15」「1月15日」: 1月15日を追加",
+      "「明日」「今週の土曜」「来週末」: 日付を言葉で指定",
+      "「1/2 1/3 1/4」: 複数日を一括追加",
+      "「1/15-1/20」: 期間内の全日を追加",
+      "「毎週土曜」「土日 2月」: 曜日で監視（ルール）",
+      "「削除 1/15」: 1月15日を削除",
+      "「削除 毎週土曜」: ルールを削除",
+      "「全削除」: 全日付・ルールを削除",
+    ],
+  },
+  {
+    title: "■ 施設の管理",
+    lines: [
+      "「施設一覧」: 登録済みの施設を表示",
+      "「施設追加 名前 ID 表示名」: 施設を登録（管理者のみ）",
+      "「施設 名前」: 日付を追加する施設を選択",
+      "「施設削除 名前」: 施設を削除（管理者のみ）",
+    ],
+  },
+  {
+    title: "■ 時間帯の指定",
+    lines: [
+      "「時間 18:00-21:00」: 全監視日の時間帯を指定",
+      "「時間 1/15 18:00-21:00」: 日付ごとに指定",
+      "「時間 1/15 18:00-21:00 sauna2」: 他の施設の日付に指定",
+      "「時間 解除」「時間 1/15 解除」: 指定を解除",
+    ],
+  },
+  {
+    title: "■ おやすみ時間",
+    lines: [
+      "「おやすみ 23:00-7:00」: この時間の空きは朝にまとめて通知",
+      "「おやすみ 解除」: 解除",
+    ],
+  },
+  {
+    title: "■ 履歴・統計",
+    lines: [
+      "「履歴」: 選択中の施設の空き・埋まりの履歴",
+      "「履歴 1/15」「履歴 sauna2」: 日付・施設を指定",
+      "「統計」「統計 sauna2」: 空きが出やすい曜日・時間帯",
+    ],
+  },
+  {
+    title: "■ 再通知",
+    lines: [
+      "「再通知 15分」: 空きが続く間15分ごとに再通知（最大3回）",
+      "「再通知 15分 5回」: 回数を指定",
+      "「再通知 解除」: 再通知をやめる",
+      "「30分後に再通知 1/15」: 空きが続いていれば30分後に1回再通知",
+      "「埋まり通知 オン」: 通知した空きが埋まったら知らせる",
+    ],
+  },
+  {
+    title: "■ 通知後の動作",
+    lines: [
+      "「通知後 削除」: 通知した日付を自動で削除",
+      "「通知後 停止」: 通知したら監視を停止",
+      "「通知後 1/15 削除」: 日付ごとに指定",
+      "「通知後 1/15 削除 sauna2」: 他の施設の日付に指定",
+      "「通知後 解除」: 指定を解除（監視を続ける）",
+      "通知の「予約できた」ボタン: その日付を削除",
+    ],
+  },
+  { title: "■ 監視間隔", lines: ["「5分」: 5分間隔に変更（1〜60分）"] },
+  { title: "■ 状態確認", lines: ["「状態」: 現在の設定を表示"] },
+];
+
+/**
+ * Adds dates to the selected facility and replies with the new count.
+ * Used by typed dates and by the date picker.
+ */
+async function addDatesAndReply(
+  targetId: string,
+  dates: string[],
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const currentConfig = await getWatchConfig(targetId);
+  const facilityId = currentConfig?.facilityId ?? DEFAULT_FACILITY_ID;
+  for (const date of dates) {
+    await addTargetDate(targetId, date, facilityId);
+  }
+  const config = await getWatchConfig(targetId);
+  const total = config?.targetDates?.length ?? dates.length;
+  const facility = await getFacility(facilityId);
+  const facilityLabel = facility?.label ?? facilityId;
+  const quickReply = [QUICK_START, QUICK_STATUS, datePickerAction()];
+
+  if (dates.length === 1) {
+    const displayDate = formatDateForDisplay(dates[0]);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `${displayDate} を【${facilityLabel}】の監視対象に追加しました。\n\n` +
+        `現在の監視日数: ${total}件\n\n` +
+        "「開始」で監視開始\n" +
+        "「状態」で一覧確認\n" +
+        "「削除 1/15」で日付を削除",
+      quickReply
+    );
+  } else {
+    const displayDates = dates.map(formatDateForDisplay).join("\n");
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `【${facilityLabel}】に${dates.length}件の日付を追加しました:\n${displayDates}\n\n` +
+        `現在の監視日数: ${total}件\n\n` +
+        "「開始」で監視開始\n" +
+        "「状態」で一覧確認",
+      quickReply
+    );
+  }
+  logger.info("Target dates added", { targetId, targetDates: dates });
+}
+
+/**
+ * Adds a recurring rule for the selected facility and replies with the
+ * dates it currently expands to.
+ */
+async function addDateRuleAndReply(
+  targetId: string,
+  pattern: DateRulePattern,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const config = await getWatchConfig(targetId);
+  const rule: DateRule = {
+    ...pattern,
+    facilityId: config?.facilityId ?? DEFAULT_FACILITY_ID,
+  };
+  const ruleText = formatDateRule(rule);
+  if (!(await addDateRule(targetId, rule))) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `「${ruleText}」は既に監視しています。`,
+      [QUICK_STATUS]
+    );
+    return;
+  }
+
+  const facilities = await listFacilities();
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `「${ruleText}」を監視ルールに追加しました。\n\n` +
+      `${formatRuleForDisplay(rule, facilities, getTodayJST())}\n\n` +
+      `対象日は${BOOKABLE_HORIZON_DAYS / 7}週間先までの日付から毎回計算され、` +
+      "予約受付が始まった日付も自動で監視します。\n" +
+      `「削除 ${ruleText}」でルールを削除`,
+    [QUICK_START, QUICK_STATUS]
+  );
+  logger.info("Date rule added", { targetId, rule });
+}
+
+/**
+ * Removes a recurring rule and replies with the result.
+ *
+ * @param facilityId - Facility of the rule (the selected one when omitted)
+ */
+async function removeDateRuleAndReply(
+  targetId: string,
+  pattern: DateRulePattern,
+  facilityId: string | undefined,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const config = await getWatchConfig(targetId);
+  const rule: DateRule = {
+    ...pattern,
+    facilityId: facilityId ?? config?.facilityId ?? DEFAULT_FACILITY_ID,
+  };
+  const ruleText = formatDateRule(rule);
+  if (await removeDateRule(targetId, rule)) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `監視ルール「${ruleText}」を削除しました。`,
+      [QUICK_STATUS]
+    );
+    logger.info("Date rule removed", { targetId, rule });
+  } else {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `監視ルール「${ruleText}」は登録されていません。`
+    );
+  }
+}
+
+/**
+ * Replies to a chat that has not registered yet.
+ */
+async function replyNotRegistered(
+  target: ChatTarget,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  await replyMessage(
+    accessToken,
+    replyToken,
+    "まだ登録されていません。\n" +
+      (target.type === "user"
+        ? "「登録」と送信すると、あなた専用の監視設定が作成されます。"
+        : "「登録」と送信すると、このトーク用の監視設定が作成されます。"),
+    [QUICK_REGISTER]
+  );
+}
+
+/**
+ * Commands anyone in a group or room may use, besides "履歴" and "統計"
+ * which take arguments
+ */
+const READ_ONLY_COMMANDS = ["status", "状態", "使い方", "help", "ヘルプ"];
+
+/**
+ * Checks whether the sender may change the chat's settings
+ * (see canChangeChatSettings).
+ *
+ * @param senderId - userId of the sender (absent if LINE did not provide it)
+ */
+async function canChangeSettings(
+  target: ChatTarget,
+  senderId: string | undefined
+): Promise<boolean> {
+  if (target.type === "user") {
+    return true;
+  }
+  const chat = await getSubscriber(target.id);
+  const sender =
+    senderId && !chat?.active ? await getSubscriber(senderId) : null;
+  return canChangeChatSettings(target, chat, senderId, sender);
+}
+
+/**
+ * Replies to a group member who may not change the settings.
+ * Members of a registered chat are told how to join; otherwise the chat
+ * can be registered after registering with the bot.
+ */
+async function replyMembersOnly(
+  target: ChatTarget,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const chat = await getSubscriber(target.id);
+  if (chat?.active) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "このトークの設定を変更できるのは、登録したメンバーと" +
+        "承認されたメンバーだけです。\n" +
+        "「参加」と送信して、メンバーに承認してもらってください。",
+      [QUICK_JOIN]
+    );
+    return;
+  }
+  await replyMessage(
+    accessToken,
+    replyToken,
+    "このトークを登録できるのは、ボットに登録済みのメンバーだけです。\n" +
+      "ボットを友だち追加して登録してから、もう一度お試しください。"
+  );
+}
+
+/**
+ * Asks the members of a group or room to let the sender change its
+ * settings ("参加"). Any member can approve with the quick-reply button.
+ *
+ * @param senderId - userId of the sender (absent if LINE did not provide it)
+ */
+async function requestMembershipAndReply(
+  target: ChatTarget,
+  senderId: string | undefined,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  if (target.type === "user") {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "「参加」はグループ・複数人トークで使うコマンドです。"
+    );
+    return;
+  }
+  const chat = await getSubscriber(target.id);
+  if (!chat?.active) {
+    await replyNotRegistered(target, accessToken, replyToken);
+    return;
+  }
+  if (!senderId) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "LINEから送信者の情報を取得できなかったため、参加できません。"
+    );
+    return;
+  }
+  if (getChatMembers(chat).includes(senderId)) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "すでにメンバーです。このトークの設定を変更できます。"
+    );
+    return;
+  }
+
+  await replyMessage(
+    accessToken,
+    replyToken,
+    "設定を変更できるメンバーへの参加をリクエストしました。\n" +
+      "メンバーの方が「承認」を押すと、設定を変更できるようになります。",
+    [
+      {
+        type: "postback",
+        label: "承認",
+        data: encodePostback({ action: "approveMember", userId: senderId }),
+        displayText: "承認",
+      },
+    ]
+  );
+  logger.info("Membership requested", { targetId: target.id, senderId });
+}
+
+/**
+ * Adds an approved member to a group or room.
+ *
+ * @param memberId - userId of the member who asked to join
+ */
+async function approveMemberAndReply(
+  targetId: string,
+  memberId: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const chat = await getSubscriber(targetId);
+  if (chat?.type !== "group" && chat?.type !== "room") {
+    logger.warn("Ignoring member approval outside a group", { targetId });
+    return;
+  }
+  await addChatMember(targetId, memberId);
+  await replyMessage(
+    accessToken,
+    replyToken,
+    "参加を承認しました。\n" +
+      "承認されたメンバーも、このトークの設定を変更できるようになりました。"
+  );
+  logger.info("Member approved", { targetId, memberId });
+}
+
+/**
+ * Runs the operation of a postback command.
+ * Each command maps to the same operation as its typed counterpart.
+ */
+async function routePostback(
+  targetId: string,
+  command: PostbackCommand,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const selectedFacility = async (): Promise<string> =>
+    (await getWatchConfig(targetId))?.facilityId ?? DEFAULT_FACILITY_ID;
+
+  switch (command.action) {
+    case "addDate": {
+      if (!command.date) {
+        break;
+      }
+      // A stale picker or a forged postback may carry a past date
+      const parsed = parseDateInput(command.date, getTodayJST());
+      if (!parsed || "error" in parsed) {
+        await replyMessage(
+          accessToken,
+          replyToken,
+          formatDateError(command.date, parsed?.error ?? "invalid")
+        );
+        break;
+      }
+      await addDatesAndReply(targetId, [parsed.date], accessToken, replyToken);
+      break;
+    }
+    case "removeDate":
+      await removeDatesAndReply(
+        targetId,
+        [command.date],
+        command.facilityId ?? (await selectedFacility()),
+        accessToken,
+        replyToken
+      );
+      break;
+    case "enable":
+      await enableAndReply(targetId, accessToken, replyToken);
+      break;
+    case "disable":
+      await disableAndReply(targetId, accessToken, replyToken);
+      break;
+    case "booked":
+      await bookedAndReply(
+        targetId,
+        command.date ?? null,
+        command.facilityId ?? (await selectedFacility()),
+        accessToken,
+        replyToken
+      );
+      break;
+    case "approveMember":
+      await approveMemberAndReply(
+        targetId,
+        command.userId,
+        accessToken,
+        replyToken
+      );
+      break;
+    case "snooze":
+      await setReminderAndReply(
+        targetId,
+        command.minutes,
+        command.date ?? null,
+        command.facilityId ?? (await selectedFacility()),
+        accessToken,
+        replyToken
+      );
+      break;
+  }
+}
+
+/**
+ * Processes a postback event from a button or date picker.
+ */
+async function processPostback(
+  event: LineEvent,
+  accessToken: string
+): Promise<void> {
+  const target = getChatTarget(event.source);
+  const replyToken = event.replyToken;
+  const postback = event.postback;
+  if (!target || !replyToken || !postback) {
+    logger.warn("Missing source, replyToken or postback");
+    return;
+  }
+  const targetId = target.id;
+
+  const command = parsePostback(postback.data, postback.params);
+  if (!command) {
+    logger.info("Ignoring unknown postback", { data: postback.data });
+    return;
+  }
+
+  logger.info("Processing postback", { action: command.action, targetId });
+
+  try {
+    // Every postback changes settings
+    if (!(await canChangeSettings(target, event.source?.userId))) {
+      await replyMembersOnly(target, accessToken, replyToken);
+      return;
+    }
+    if (!(await getSubscriber(targetId))) {
+      await replyNotRegistered(target, accessToken, replyToken);
+      return;
+    }
+    await routePostback(targetId, command, accessToken, replyToken);
+  } catch (err) {
+    logger.error("Error processing postback", { error: err, targetId });
+    try {
+      await replyMessage(
+        accessToken,
+        replyToken,
+        "エラーが発生しました。しばらく待ってから再試行してください。"
+      );
+    } catch {
+      // Ignore reply error
+    }
+  }
+}
+
+/** First steps shown after registration */
+const GETTING_STARTED_TEXT =
+  "日付を送信: 監視日を追加（例: 1/15）\n" +
+  "複数日程を追加できます\n" +
+  "「開始」で監視開始\n" +
+  "「停止」で監視停止\n" +
+  "「状態」で状態確認\n" +
+  "「使い方」で詳細を表示";
+
+/**
+ * Builds the "使い方" layout.
+ */
+function buildHelpMessage(): LineFlexMessage {
+  return buildInfoMessage("サウナ予約監視ボット 使い方", HELP_SECTIONS, [
+    { type: "message", label: "状態を確認", text: "状態" },
+  ]);
+}
+
+/**
+ * Handles follow (friend added or unblocked) and unfollow (blocked) events.
+ * Following registers the user automatically; unfollowing deactivates
+ * the subscription so the scheduler stops pushing to them.
+ */
+async function processFollowEvent(
+  event: LineEvent,
+  accessToken: string
+): Promise<void> {
+  const userId = event.source?.userId;
+  if (!userId) {
+    logger.warn("Missing userId on follow event", { type: event.type });
+    return;
+  }
+
+  if (event.type === "unfollow") {
+    await deactivateSubscriber(userId);
+    logger.info("User unfollowed, subscription deactivated", { userId });
+    return;
+  }
+
+  await registerSubscriber(userId);
+  await ensureWatchConfig(userId);
+  logger.info("User followed, registered", { userId });
+  if (event.replyToken) {
+    await replyMessage(
+      accessToken,
+      event.replyToken,
+      [
+        {
+          type: "text",
+          text:
+            "友だち追加ありがとうございます！\n" +
+            `通知の登録が完了しました。\n\n${GETTING_STARTED_TEXT}`,
+        },
+        buildHelpMessage(),
+      ],
+      [datePickerAction(), QUICK_START]
+    );
+  }
+}
+
+/**
+ * Handles the bot joining or leaving a group or room.
+ * Joining explains how to register; leaving deactivates the chat's
+ * subscription.
  */
-function parseDate(input: string): string | null {
-  const trimmed = input.trim();
+async function processJoinEvent(
+  event: LineEvent,
+  accessToken: string
+): Promise<void> {
+  const target = getChatTarget(event.source);
+  if (!target) {
+    logger.warn("Missing source on join event", { type: event.type });
+    return;
+  }
 
-  // Try MM/DD or M/D format (current year)
-  const shortSlash = /^(\d{1,2})\/(\d{1,2})$/;
-  const shortSlashMatch = trimmed.match(shortSlash);
-  if (shortSlashMatch) {
-    const month = parseInt(shortSlashMatch[1], 10);
-    const day = parseInt(shortSlashMatch[2], 10);
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      const year = new Date().getFullYear();
-      return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  if (event.type === "leave") {
+    if (await getSubscriber(target.id)) {
+      await deactivateSubscriber(target.id);
+      logger.info("Bot left, subscription deactivated", { targetId: target.id });
     }
+    return;
   }
 
-  // Try YYYY/MM/DD format
-  const longSlash = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/;
-  const longSlashMatch = trimmed.match(longSlash);
-  if (longSlashMatch) {
-    const year = parseInt(longSlashMatch[1], 10);
-    const month = parseInt(longSlashMatch[2], 10);
-    const day = parseInt(longSlashMatch[3], 10);
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  logger.info("Bot joined", { targetId: target.id, type: target.type });
+  if (event.replyToken) {
+    await replyMessage(
+      accessToken,
+      event.replyToken,
+      "招待ありがとうございます！\n" +
+        "「登録」と送信すると、このトークに空きの通知が届くようになります。\n\n" +
+        "登録や設定の変更ができるのは、ボットを友だち追加して登録済みのメンバーだけです。",
+      [QUICK_REGISTER, QUICK_HELP]
+    );
+  }
+}
+
+/** Number of events shown by "履歴" */
+const HISTORY_LIMIT = 20;
+
+/**
+ * Handles the history command: shows the recent open/close timeline of
+ * a facility, or of one date.
+ *
+ * @param args - Optional date and/or facility name (in any order)
+ */
+async function handleHistoryCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const today = getTodayJST();
+  let date: string | null = null;
+  let facilityArg: string | undefined;
+  for (const part of args.split(/[\s　]+/).filter((p) => p.length > 0)) {
+    // Past dates are allowed, as their history is still kept
+    const parsed = parseDate(part, today, { allowPast: true });
+    if (parsed) {
+      date = parsed;
+    } else {
+      facilityArg = part;
     }
   }
 
-  // Try MM-DD or M-D format (current year)
-  const shortDash = /^(\d{1,2})-(\d{1,2})$/;
-  const shortDashMatch = trimmed.match(shortDash);
-  if (shortDashMatch) {
-    const month = parseInt(shortDashMatch[1], 10);
-    const day = parseInt(shortDashMatch[2], 10);
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      const year = new Date().getFullYear();
-      return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const config = await getWatchConfig(targetId);
+  const facilityId = facilityArg ?? config?.facilityId ?? DEFAULT_FACILITY_ID;
+  const facility = await getFacility(facilityId);
+  if (!facility) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `施設「${facilityId}」は登録されていません。\n「施設一覧」で確認できます。`
+    );
+    return;
+  }
+
+  const events = await getHistoryEvents(facilityId, date, HISTORY_LIMIT);
+  const scope = `【${facility.label}】${date ? formatDateForDisplay(date) : ""}`;
+  if (events.length === 0) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `${scope}の空き状況の変化はまだ記録されていません。`
+    );
+    return;
+  }
+
+  // Durations are known for closings whose opening is in the same page
+  const durations = new Map<string, number>();
+  for (const interval of getOpenIntervals(events)) {
+    if (interval.closedAt !== undefined) {
+      durations.set(
+        `${interval.date} ${interval.time} ${interval.closedAt}`,
+        interval.closedAt - interval.openedAt
+      );
+    }
+  }
+  const lines = [...events].reverse().map((event) => {
+    const slot = `${formatMonthDay(event.date)} ${event.time}`;
+    if (event.change === "open") {
+      return `${formatTimestampJST(event.at)} ${slot} 空き`;
     }
+    const duration = durations.get(`${event.date} ${event.time} ${event.at}`);
+    const durationText =
+      duration !== undefined
+        ? `（${Math.max(1, Math.round(duration / 60000))}分間）`
+        : "";
+    return `${formatTimestampJST(event.at)} ${slot} 埋まり${durationText}`;
+  });
+
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `${scope}の履歴（直近${events.length}件）\n\n${lines.join("\n")}`
+  );
+}
+
+/** Number of recent events aggregated by "統計" */
+const STATISTICS_EVENT_LIMIT = 1000;
+
+/**
+ * Handles the statistics command: summarizes when openings of a
+ * facility tend to appear and how long they stay open.
+ *
+ * @param args - Optional facility name
+ */
+async function handleStatisticsCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const config = await getWatchConfig(targetId);
+  const facilityId = args || config?.facilityId || DEFAULT_FACILITY_ID;
+  const facility = await getFacility(facilityId);
+  if (!facility) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `施設「${facilityId}」は登録されていません。\n「施設一覧」で確認できます。`
+    );
+    return;
+  }
+
+  const events = await getHistoryEvents(
+    facilityId,
+    null,
+    STATISTICS_EVENT_LIMIT
+  );
+  const stats = aggregateOpenings(events);
+  const peak = findPeakWindow(stats);
+  if (!peak) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `【${facility.label}】の空きはまだ記録されていません。\n` +
+        "監視を続けると、空きが出やすい曜日や時間帯を集計できます。"
+    );
+    return;
   }
 
-  // Try YYYY-MM-DD format
-  const longDash = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
-  const longDashMatch = trimmed.match(longDash);
-  if (longDashMatch) {
-    const year = parseInt(longDashMatch[1], 10);
-    const month = parseInt(longDashMatch[2], 10);
-    const day = parseInt(longDashMatch[3], 10);
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const ranked = (counts: number[], label: (i: number) => string) =>
+    counts
+      .map((count, i) => ({ count, i }))
+      .filter((entry) => entry.count > 0)
+      .sort((a, b) => b.count - a.count || a.i - b.i)
+      .slice(0, 3)
+      .map((entry) => `${label(entry.i)} ${entry.count}件`)
+      .join(" / ");
+
+  const lines = [
+    `空きが多い時間: ${WEEKDAY_CHARS[peak.weekday]} ` +
+      `${peak.startHour}:00〜${peak.endHour % 24}:00（${peak.openings}件）`,
+    `曜日: ${ranked(stats.byWeekday, (i) => WEEKDAY_CHARS[i])}`,
+    `時間帯: ${ranked(stats.byHour, (i) => `${i}時台`)}`,
+    `予約日まで: ${ranked(stats.byLeadTime, (i) => LEAD_TIME_BUCKETS[i].label)}`,
+    "空いていた時間の中央値: " +
+      (stats.medianOpenMinutes !== null
+        ? `${Math.max(1, Math.round(stats.medianOpenMinutes))}分`
+        : "記録なし"),
+  ];
+
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `【${facility.label}】空きの統計（${stats.openings}件）\n\n` +
+      lines.join("\n")
+  );
+}
+
+/** Longest delay accepted by the reminder command */
+const MAX_REMIND_MINUTES = 180;
+
+/**
+ * Removes target dates and replies with the remaining count.
+ * Used by "削除" and the availability card's stop button.
+ */
+async function removeDatesAndReply(
+  targetId: string,
+  dates: string[],
+  facilityId: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const removed: string[] = [];
+  for (const date of dates) {
+    if (await removeTargetDate(targetId, date, facilityId)) {
+      removed.push(date);
     }
   }
+  const missing = dates.filter((date) => !removed.includes(date));
+  const displayDates = (list: string[]) =>
+    list.map(formatDateForDisplay).join("、");
+  const config = await getWatchConfig(targetId);
+
+  if (removed.length > 0) {
+    const remaining = config?.targetDates?.length ?? 0;
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `${displayDates(removed)} を監視対象から削除しました。\n` +
+        (missing.length > 0
+          ? `（${displayDates(missing)} は監視対象に含まれていません）\n`
+          : "") +
+        `\n残りの監視日: ${remaining}件`,
+      [QUICK_STATUS, datePickerAction()]
+    );
+    logger.info("Target dates removed", {
+      targetId,
+      targetDates: removed,
+      facilityId,
+    });
+    return;
+  }
 
-  return null;
+  // A date expanded from a rule can only be removed with its rule
+  const rule = config?.dateRules?.find(
+    (r) =>
+      r.facilityId === facilityId &&
+      dates.some((date) => expandDateRule(r, date, 1).length > 0)
+  );
+  const ruleText = rule ? formatDateRule(rule) : "";
+  await replyMessage(
+    accessToken,
+    replyToken,
+    rule
+      ? `${displayDates(dates)} は監視ルール「${ruleText}」で` +
+          "監視しています。\n" +
+          `「削除 ${ruleText}」でルールを削除できます。`
+      : `${displayDates(dates)} は監視対象に含まれていません。`
+  );
 }
 
 /**
- * Formats a date string for display.
+ * Enables monitoring and replies with the watched dates.
  */
-function formatDateForDisplay(dateStr: string): string {
-  const [year, month, day] = dateStr.split("-");
-  return `${year}年${parseInt(month, 10)}月${parseInt(day, 10)}日`;
+async function enableAndReply(
+  targetId: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const config = await getWatchConfig(targetId);
+  await setWatchEnabled(targetId, true);
+  const dates = config?.targetDates ?? [];
+  const rules = config?.dateRules ?? [];
+  const facilities = await listFacilities();
+  const today = getTodayJST();
+  const dateInfo = isWatchingAllDates(config)
+    ? "\n（全日程を監視）"
+    : (dates.length > 0
+        ? `\n監視日:\n${formatTargetsForDisplay(dates, facilities)}`
+        : "") +
+      (rules.length > 0
+        ? `\n監視ルール:\n${rules
+            .map((r) => formatRuleForDisplay(r, facilities, today))
+            .join("\n")}`
+        : "");
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `監視を開始しました。${dateInfo}\n\n空きが出たら通知します。`,
+    [QUICK_STATUS, QUICK_STOP]
+  );
+  logger.info("Monitoring enabled", { targetId });
 }
 
 /**
- * Formats multiple dates for display.
+ * Disables monitoring.
  */
-function formatDatesForDisplay(dates: string[]): string {
-  return dates.map(formatDateForDisplay).join("\n");
+async function disableAndReply(
+  targetId: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  await setWatchEnabled(targetId, false);
+  await replyMessage(
+    accessToken,
+    replyToken,
+    "監視を停止しました。\n再開するには「開始」と送信してください。",
+    [QUICK_START]
+  );
+  logger.info("Monitoring disabled", { targetId });
 }
 
 /**
- * Formats a timestamp to JST date/time string.
- * @param timestamp - Unix timestamp in milliseconds
- * @returns Formatted string like "1/2 18:30"
+ * Pauses monitoring and schedules it to resume.
+ *
+ * @param args - Pause length ("2時間", "30分") or end time ("21:00まで")
  */
-function formatTimestampJST(timestamp: number): string {
-  // Convert to JST (UTC+9)
-  const jstOffset = 9 * 60 * 60 * 1000;
-  const jstDate = new Date(timestamp + jstOffset);
-  const month = jstDate.getUTCMonth() + 1;
-  const day = jstDate.getUTCDate();
-  const hours = String(jstDate.getUTCHours()).padStart(2, "0");
-  const minutes = String(jstDate.getUTCMinutes()).padStart(2, "0");
-  return `${month}/${day} ${hours}:${minutes}`;
+async function pauseAndReply(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const resumeAt = parseResumeTime(args);
+  if (resumeAt === null) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `一時停止の長さは${MAX_PAUSE_HOURS}時間以内で指定してください。\n\n` +
+        "例: 「停止 2時間」「停止 30分」「停止 21:00まで」"
+    );
+    return;
+  }
+
+  await pauseWatch(targetId, resumeAt);
+  await replyMessage(
+    accessToken,
+    replyToken,
+    "監視を一時停止しました。\n" +
+      `${formatTimestampJST(resumeAt)}に自動で再開します。\n` +
+      "すぐに再開するには「開始」と送信してください。",
+    [QUICK_START]
+  );
+  logger.info("Monitoring paused", { targetId, resumeAt });
 }
 
 /**
- * Parses multiple dates from input (space or comma separated).
- * Example: "1/2 1/3" or "1/2, 1/3" or "1/2　1/3" (full-width space)
- * @returns Array of YYYY-MM-DD strings (only valid dates)
+ * Stops watching a booked date ("予約できた" on an availability card).
+ * When no dates or rules are left, monitoring stops instead of falling
+ * back to watching all dates.
+ *
+ * @param date - Booked date, or null when all dates of the facility are
+ *   watched (monitoring stops)
  */
-function parseMultipleDates(input: string): string[] {
-  // Split by space (half-width or full-width) or comma
-  const parts = input.split(/[\s,、　]+/).filter((p) => p.length > 0);
-  const dates: string[] = [];
+async function bookedAndReply(
+  targetId: string,
+  date: string | null,
+  facilityId: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const stopped =
+    "監視を停止しました。\n再開するには「開始」と送信してください。";
+  if (!date) {
+    await setWatchEnabled(targetId, false);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `予約おめでとうございます！\n${stopped}`,
+      [QUICK_START]
+    );
+    logger.info("Booked, monitoring disabled", { targetId, facilityId });
+    return;
+  }
 
-  for (const part of parts) {
-    const parsed = parseDate(part);
-    if (parsed && !dates.includes(parsed)) {
-      dates.push(parsed);
-    }
+  const displayDate = formatDateForDisplay(date);
+  if (!(await removeTargetDate(targetId, date, facilityId))) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `${displayDate} はすでに監視対象から削除されています。`
+    );
+    return;
+  }
+
+  const config = await getWatchConfig(targetId);
+  const remaining = config?.targetDates?.length ?? 0;
+  const stop =
+    !!config?.enabled && remaining === 0 && !config.dateRules?.length;
+  if (stop) {
+    await setWatchEnabled(targetId, false);
+  }
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `予約おめでとうございます！\n${displayDate} を監視対象から削除しました。\n\n` +
+      (stop
+        ? `監視日がなくなったため、${stopped}`
+        : `残りの監視日: ${remaining}件`),
+    stop ? [QUICK_START] : [QUICK_STATUS, datePickerAction()]
+  );
+  logger.info("Booked date removed", {
+    targetId,
+    targetDate: date,
+    facilityId,
+  });
+}
+
+/**
+ * Schedules a re-notification of a target's open slots.
+ *
+ * @param date - Target date, or null for all dates of the facility
+ */
+async function setReminderAndReply(
+  targetId: string,
+  minutes: number,
+  date: string | null,
+  facilityId: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  if (minutes < 1 || minutes > MAX_REMIND_MINUTES) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `再通知は1〜${MAX_REMIND_MINUTES}分後の範囲で指定してください。`
+    );
+    return;
+  }
+
+  const key = date ? targetKey({ date, facilityId }) : allDatesKey(facilityId);
+  const remindAt = Date.now() + minutes * 60 * 1000;
+  await setReminder(targetId, key, remindAt);
+
+  const facility = await getFacility(facilityId);
+  const label = date ? formatDateForDisplay(date) : "全日程";
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `【${facility?.label ?? facilityId}】${label} の空きを` +
+      `${formatTimestampJST(remindAt)}ごろに再通知します。\n` +
+      "その時点で空いている枠を改めてお知らせします。"
+  );
+  logger.info("Reminder set", { targetId, key, remindAt });
+}
+
+/**
+ * Handles the typed reminder command (e.g., "30分後に再通知 1/15").
+ * Slots of the target that are still open when the reminder is due
+ * are notified again.
+ *
+ * @param args - Date (or "全日程") and optional facility name
+ */
+async function handleRemindCommand(
+  targetId: string,
+  minutes: number,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const [dateArg = "全日程", facilityArg] = args
+    .split(/[\s　]+/)
+    .filter((p) => p.length > 0);
+  const config = await getWatchConfig(targetId);
+  const facilityId = facilityArg ?? config?.facilityId ?? DEFAULT_FACILITY_ID;
+  const parsed =
+    dateArg === "全日程" ? null : parseDateInput(dateArg, getTodayJST());
+  if (dateArg !== "全日程" && (!parsed || "error" in parsed)) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      parsed && "error" in parsed
+        ? formatDateError(dateArg, parsed.error)
+        : "日付の形式が正しくありません。\n例: 「30分後に再通知 1/15」"
+    );
+    return;
+  }
+  const date = parsed && "date" in parsed ? parsed.date : null;
+
+  await setReminderAndReply(
+    targetId,
+    minutes,
+    date,
+    facilityId,
+    accessToken,
+    replyToken
+  );
+}
+
+/** Range of the re-notify policy's interval in minutes */
+const MIN_RENOTIFY_MINUTES = 5;
+const MAX_RENOTIFY_MINUTES = 180;
+/** Reminders per opening when the count is not given */
+const DEFAULT_RENOTIFY_COUNT = 3;
+const MAX_RENOTIFY_COUNT = 10;
+
+/**
+ * Formats a re-notify policy (e.g., "15分ごと（最大3回）").
+ */
+function formatRenotifyPolicy(policy: RenotifyPolicy): string {
+  return `${policy.intervalMinutes}分ごと（最大${policy.maxCount}回）`;
+}
+
+/**
+ * Handles the re-notify policy command. While a notified slot stays
+ * open, it is notified again at the interval, up to the count.
+ *
+ * @param args - "15分", "15分 5回", "解除", or empty to show the setting
+ */
+async function handleRenotifyCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  if (args.length === 0) {
+    const config = await getWatchConfig(targetId);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      config?.renotify
+        ? `空きが続いている間、${formatRenotifyPolicy(config.renotify)}` +
+            "再通知します。\n解除するには「再通知 解除」と送信してください。"
+        : "再通知は設定されていません（空きは1回だけ通知します）。\n" +
+            "例: 「再通知 15分」「再通知 15分 5回」"
+    );
+    return;
+  }
+
+  if (args === "解除") {
+    await setRenotifyPolicy(targetId, null);
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "再通知を解除しました。\n空きは見つかったときに1回だけ通知します。"
+    );
+    return;
+  }
+
+  const match = args.match(/^(\d+)分(?:[\s　]*(?:最大)?(\d+)回)?$/);
+  const intervalMinutes = match ? parseInt(match[1], 10) : NaN;
+  const maxCount = match?.[2]
+    ? parseInt(match[2], 10)
+    : DEFAULT_RENOTIFY_COUNT;
+  if (
+    !match ||
+    intervalMinutes < MIN_RENOTIFY_MINUTES ||
+    intervalMinutes > MAX_RENOTIFY_MINUTES ||
+    maxCount < 1 ||
+    maxCount > MAX_RENOTIFY_COUNT
+  ) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      `再通知の間隔は${MIN_RENOTIFY_MINUTES}〜${MAX_RENOTIFY_MINUTES}分、` +
+        `回数は1〜${MAX_RENOTIFY_COUNT}回で指定してください。\n\n` +
+        "例: 「再通知 15分」「再通知 15分 5回」「再通知 解除」"
+    );
+    return;
+  }
+
+  const policy: RenotifyPolicy = { intervalMinutes, maxCount };
+  await setRenotifyPolicy(targetId, policy);
+  await replyMessage(
+    accessToken,
+    replyToken,
+    `空きが続いている間、${formatRenotifyPolicy(policy)}再通知します。\n` +
+      "枠が埋まると再通知は止まります。"
+  );
+  logger.info("Renotify policy updated", { targetId, ...policy });
+}
+
+/**
+ * Handles the command that turns the "埋まりました" message on or off.
+ *
+ * @param args - "オン" or "オフ"
+ */
+async function handleNotifyClosedCommand(
+  targetId: string,
+  args: string,
+  accessToken: string,
+  replyToken: string
+): Promise<void> {
+  const value = args.toLowerCase();
+  const enabled = ["オン", "on"].includes(value)
+    ? true
+    : ["オフ", "off"].includes(value)
+      ? false
+      : null;
+  if (enabled === null) {
+    await replyMessage(
+      accessToken,
+      replyToken,
+      "「埋まり通知 オン」または「埋まり通知 オフ」と送信してください。"
+    );
+    return;
   }
 
-  return dates.sort();
+  await setNotifyClosed(targetId, enabled);
+  await replyMessage(
+    accessToken,
+    replyToken,
+    enabled
+      ? "通知した空きが埋まったときにもお知らせします。"
+      : "空きが埋まったときのお知らせをオフにしました。"
+  );
+  logger.info("Closed notification updated", { targetId, enabled });
 }
 
 // Define secrets
 const lineChannelAccessToken = defineSecret("LINE_CHANNEL_ACCESS_TOKEN");
 const lineChannelSecret = defineSecret("LINE_CHANNEL_SECRET");
 
+// Define params
+const ownerUserId = defineString("OWNER_LINE_USER_ID", { default: "" });
+
 /**
  * Processes a single LINE event.
  */
@@ -154,6 +1769,34 @@ async function processEvent(
   event: LineEvent,
   accessToken: string
 ): Promise<void> {
+  if (event.type === "postback") {
+    await processPostback(event, accessToken);
+    return;
+  }
+  if (event.type === "follow" || event.type === "unfollow") {
+    try {
+      await processFollowEvent(event, accessToken);
+    } catch (err) {
+      logger.error("Error processing follow event", {
+        error: err,
+        type: event.type,
+      });
+    }
+    return;
+  }
+
+  if (event.type === "join" || event.type === "leave") {
+    try {
+      await processJoinEvent(event, accessToken);
+    } catch (err) {
+      logger.error("Error processing join event", {
+        error: err,
+        type: event.type,
+      });
+    }
+    return;
+  }
+
   // Only handle text messages
   if (event.type !== "message" || event.message?.type !== "text") {
     logger.info("Ignoring non-text event", { type: event.type });
@@ -162,29 +1805,67 @@ async function processEvent(
 
   const rawText = event.message.text?.trim() ?? "";
   const text = rawText.toLowerCase();
-  const userId = event.source?.userId;
+  const target = getChatTarget(event.source);
   const replyToken = event.replyToken;
 
-  if (!userId || !replyToken) {
-    logger.warn("Missing userId or replyToken");
+  if (!target || !replyToken) {
+    logger.warn("Missing source or replyToken");
     return;
   }
+  const targetId = target.id;
 
-  logger.info("Processing command", { text, userId });
+  logger.info("Processing command", { text, targetId, type: target.type });
 
   try {
+    // Group and room members ask to join before changing settings
+    if (text === "参加") {
+      await requestMembershipAndReply(
+        target,
+        event.source?.userId,
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // In groups and rooms, only the chat's members may change settings
+    const isReadOnlyCommand =
+      READ_ONLY_COMMANDS.includes(text) ||
+      rawText.startsWith("履歴") ||
+      rawText.startsWith("統計");
+    if (
+      !isReadOnlyCommand &&
+      !(await canChangeSettings(target, event.source?.userId))
+    ) {
+      await replyMembersOnly(target, accessToken, replyToken);
+      return;
+    }
+
+    // Commands other than registration and help require a subscription
+    const isOpenCommand = [
+      "start",
+      "登録",
+      "使い方",
+      "help",
+      "ヘルプ",
+    ].includes(text);
+    if (!isOpenCommand && !(await getSubscriber(targetId))) {
+      await replyNotRegistered(target, accessToken, replyToken);
+      return;
+    }
+
     // Check for interval command (間隔 5 or 5分 or interval 5)
     const intervalMatch = rawText.match(/^(?:間隔\s*|interval\s*)(\d+)$|^(\d+)分$/i);
     if (intervalMatch) {
       const minutes = parseInt(intervalMatch[1] || intervalMatch[2], 10);
       if (minutes >= 1 && minutes <= 60) {
-        await setIntervalMinutes(minutes);
+        await setIntervalMinutes(targetId, minutes);
         await replyMessage(
           accessToken,
           replyToken,
           `監視間隔を ${minutes}分 に設定しました。`
         );
-        logger.info("Interval updated", { userId, intervalMinutes: minutes });
+        logger.info("Interval updated", { targetId, intervalMinutes: minutes });
         return;
       } else {
         await replyMessage(
@@ -196,180 +1877,422 @@ async function processEvent(
       }
     }
 
-    // Check for remove date command (削除 1/15 or 削除1/15)
+    // Check for facility commands (施設一覧 / 施設追加 / 施設削除 / 施設 name)
+    const facilityMatch = rawText.match(/^施設(一覧|追加|削除)?\s*(.*)$/);
+    if (facilityMatch) {
+      await handleFacilityCommand(
+        targetId,
+        facilityMatch[1] ?? "",
+        facilityMatch[2].trim(),
+        event.source?.userId,
+        accessToken,
+        replyToken
+      );
+      logger.info("Facility command processed", {
+        targetId,
+        command: facilityMatch[1] ?? "選択",
+      });
+      return;
+    }
+
+    // Check for time window command (時間 18:00-21:00 / 時間 1/15 18:00-21:00 [施設名] / 時間 解除)
+    const timeMatch = rawText.match(/^時間\s*(.*)$/);
+    if (timeMatch) {
+      await handleTimeWindowCommand(
+        targetId,
+        timeMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      logger.info("Time window command processed", { targetId });
+      return;
+    }
+
+    // Check for timed pause (停止 2時間 / 停止 21:00まで)
+    const pauseMatch = rawText.match(/^停止[\s　]+(.+)$/);
+    if (pauseMatch) {
+      await pauseAndReply(
+        targetId,
+        pauseMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for quiet hours command (おやすみ 23:00-7:00 / おやすみ 解除)
+    const quietMatch = rawText.match(/^おやすみ\s*(.*)$/);
+    if (quietMatch) {
+      await handleQuietHoursCommand(
+        targetId,
+        quietMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      logger.info("Quiet hours command processed", { targetId });
+      return;
+    }
+
+    // Check for remove date command (削除 1/15 / 削除 1/15 施設名)
     const removeMatch = rawText.match(/^削除\s*(.+)$/);
     if (removeMatch) {
-      const parsedDate = parseDate(removeMatch[1]);
-      if (parsedDate) {
-        const removed = await removeTargetDate(parsedDate);
-        const displayDate = formatDateForDisplay(parsedDate);
-        if (removed) {
-          const config = await getWatchConfig();
-          const remaining = config?.targetDates?.length ?? 0;
-          await replyMessage(
-            accessToken,
-            replyToken,
-            `${displayDate} を監視対象から削除しました。\n\n` +
-              `残りの監視日: ${remaining}件`
-          );
-          logger.info("Target date removed", { userId, targetDate: parsedDate });
-        } else {
-          await replyMessage(
-            accessToken,
-            replyToken,
-            `${displayDate} は監視対象に含まれていません。`
-          );
-        }
-        return;
-      } else {
-        // 削除コマンドだが日付が無効な場合
-        await replyMessage(
+      // 削除 毎週土曜 / 削除 土日 2月 sauna2
+      const removeArgs = removeMatch[1].trim().split(/[\s　]+/);
+      const fullRule = parseDateRule(removeArgs.join(" "));
+      const ruleFacility =
+        removeArgs.length > 1 ? removeArgs[removeArgs.length - 1] : undefined;
+      const facilityRule =
+        !fullRule && ruleFacility
+          ? parseDateRule(removeArgs.slice(0, -1).join(" "))
+          : null;
+      const removeRule = fullRule ?? facilityRule;
+      if (removeRule) {
+        await removeDateRuleAndReply(
+          targetId,
+          removeRule,
+          fullRule ? undefined : ruleFacility,
           accessToken,
-          replyToken,
-          `日付の形式が正しくありません。\n\n` +
-            `例: 「削除 1/15」「削除 2025/1/15」\n` +
-            `※複数日付の一括削除はできません`
+          replyToken
         );
         return;
       }
-    }
-
-    // Check if it's a date command (add date - supports multiple dates)
-    const parsedDates = parseMultipleDates(rawText);
-    if (parsedDates.length > 0) {
-      // Add all dates
-      for (const date of parsedDates) {
-        await addTargetDate(date);
-      }
-      const config = await getWatchConfig();
-      const total = config?.targetDates?.length ?? parsedDates.length;
 
-      if (parsedDates.length === 1) {
-        const displayDate = formatDateForDisplay(parsedDates[0]);
+      const today = getTodayJST();
+      const [dateArg, facilityArg, ...rest] = removeMatch[1].split(/[\s　]+/);
+      const parsedDates = parseDateExpression(dateArg, today);
+      const validArgs =
+        rest.length === 0 &&
+        !(facilityArg && parseDateExpression(facilityArg, today));
+      if (parsedDates && "error" in parsedDates && validArgs) {
         await replyMessage(
           accessToken,
           replyToken,
-          `${displayDate} を監視対象に追加しました。\n\n` +
-            `現在の監視日数: ${total}件\n\n` +
-            "「開始」で監視開始\n" +
-            "「状態」で一覧確認\n" +
-            "「削除 1/15」で日付を削除"
+          formatDateError(dateArg, parsedDates.error)
+        );
+        return;
+      }
+      if (parsedDates && "dates" in parsedDates && validArgs) {
+        const currentConfig = await getWatchConfig(targetId);
+        const facilityId =
+          facilityArg ?? currentConfig?.facilityId ?? DEFAULT_FACILITY_ID;
+        await removeDatesAndReply(
+          targetId,
+          parsedDates.dates,
+          facilityId,
+          accessToken,
+          replyToken
         );
+        return;
       } else {
-        const displayDates = parsedDates.map(formatDateForDisplay).join("\n");
+        // 削除コマンドだが日付が無効な場合
         await replyMessage(
           accessToken,
           replyToken,
-          `${parsedDates.length}件の日付を追加しました:\n${displayDates}\n\n` +
-            `現在の監視日数: ${total}件\n\n` +
-            "「開始」で監視開始\n" +
-            "「状態」で一覧確認"
+          `日付の形式が正しくありません。\n\n` +
+            `例: 「削除 1/15」「削除 1月15日」「削除 明日」「削除 1/15 sauna2」\n` +
+            `※複数日付の一括削除はできません`
         );
+        return;
       }
-      logger.info("Target dates added", { userId, targetDates: parsedDates });
+    }
+
+    // Check for history command (履歴 / 履歴 1/15 / 履歴 sauna2 / 履歴 1/15 sauna2)
+    const historyMatch = rawText.match(/^履歴\s*(.*)$/);
+    if (historyMatch) {
+      await handleHistoryCommand(
+        targetId,
+        historyMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for statistics command (統計, 統計 sauna2)
+    const statisticsMatch = rawText.match(/^統計\s*(.*)$/);
+    if (statisticsMatch) {
+      await handleStatisticsCommand(
+        targetId,
+        statisticsMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for reminder command (30分後に再通知 2025-01-15 sauna2)
+    const remindMatch = rawText.match(/^(\d+)分後に再通知\s*(.*)$/);
+    if (remindMatch) {
+      await handleRemindCommand(
+        targetId,
+        parseInt(remindMatch[1], 10),
+        remindMatch[2].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for re-notify policy (再通知 15分 / 再通知 15分 5回 / 再通知 解除)
+    const renotifyMatch = rawText.match(/^再通知\s*(.*)$/);
+    if (renotifyMatch) {
+      await handleRenotifyCommand(
+        targetId,
+        renotifyMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for closed-slot message setting (埋まり通知 オン / オフ)
+    const notifyClosedMatch = rawText.match(/^埋まり通知\s*(.*)$/);
+    if (notifyClosedMatch) {
+      await handleNotifyClosedCommand(
+        targetId,
+        notifyClosedMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for after-found mode (通知後 削除 / 通知後 1/15 停止 [施設名] / 通知後 解除)
+    const afterFoundMatch = rawText.match(/^通知後\s*(.*)$/);
+    if (afterFoundMatch) {
+      await handleAfterFoundCommand(
+        targetId,
+        afterFoundMatch[1].trim(),
+        accessToken,
+        replyToken
+      );
+      return;
+    }
+
+    // Check for recurring rules (毎週土曜 / 土日 2月)
+    const rulePattern = parseDateRule(rawText);
+    if (rulePattern) {
+      await addDateRuleAndReply(targetId, rulePattern, accessToken, replyToken);
+      return;
+    }
+
+    // Check if it's a date command (add date - supports multiple dates)
+    const today = getTodayJST();
+    const parsedDates = parseMultipleDates(rawText, today);
+    if (parsedDates.rejected.length > 0) {
+      await replyMessage(
+        accessToken,
+        replyToken,
+        parsedDates.rejected
+          .map(({ input, error }) => formatDateError(input, error))
+          .join("\n") + "\n\n日付は追加していません。",
+        [datePickerAction()]
+      );
+      return;
+    }
+
+    // Reject ranges that are reversed or beyond the bookable horizon
+    const invalidRange = rawText
+      .split(DATE_SEPARATOR)
+      .map((part) => parseDateRange(part, today))
+      .find(
+        (range) =>
+          range && "start" in range && !expandDateRange(range.start, range.end)
+      );
+    if (invalidRange && "start" in invalidRange) {
+      await replyMessage(
+        accessToken,
+        replyToken,
+        `期間「${formatDateForDisplay(invalidRange.start)}〜` +
+          `${formatDateForDisplay(invalidRange.end)}」は指定できません。\n` +
+          `開始日・終了日の順に、${BOOKABLE_HORIZON_DAYS}日以内で指定してください。\n` +
+          "例: 「1/15-1/20」"
+      );
+      return;
+    }
+
+    if (parsedDates.dates.length > 0) {
+      await addDatesAndReply(
+        targetId,
+        parsedDates.dates,
+        accessToken,
+        replyToken
+      );
       return;
     }
 
     switch (text) {
       case "start":
       case "登録": {
-        await setLineTarget(userId);
-        await ensureWatchConfig();
+        const isGroup = target.type !== "user";
+        // Registering again keeps the members of an active group
+        const isNewGroup = isGroup && !(await getSubscriber(targetId))?.active;
+        await registerSubscriber(
+          targetId,
+          target.type,
+          isNewGroup ? event.source?.userId : undefined
+        );
+        await ensureWatchConfig(targetId);
         await replyMessage(
           accessToken,
           replyToken,
           "登録完了しました！\n\n" +
-            "日付を送信: 監視日を追加（例: 1/15）\n" +
-            "複数日程を追加できます\n" +
-            "「開始」で監視開始\n" +
-            "「停止」で監視停止\n" +
-            "「状態」で状態確認\n" +
-            "「使い方」で詳細を表示"
+            (isGroup
+              ? "このトークに空きの通知が届きます。\n" +
+                "設定を変更できるのは、登録したメンバーと、" +
+                "「参加」を送信して承認されたメンバーだけです。\n\n"
+              : "") +
+            GETTING_STARTED_TEXT,
+          [datePickerAction(), QUICK_START, QUICK_HELP]
         );
-        logger.info("User registered", { userId });
+        logger.info("Subscriber registered", { targetId, type: target.type });
         break;
       }
 
       case "on":
       case "開始": {
-        const config = await getWatchConfig();
-        await setWatchEnabled(true);
-        const dates = config?.targetDates;
-        const dateInfo =
-          dates && dates.length > 0
-            ? `\n監視日:\n${formatDatesForDisplay(dates)}`
-            : "\n（全日程を監視）";
-        await replyMessage(
-          accessToken,
-          replyToken,
-          `監視を開始しました。${dateInfo}\n\n空きが出たら通知します。`
-        );
-        logger.info("Monitoring enabled", { userId });
+        await enableAndReply(targetId, accessToken, replyToken);
         break;
       }
 
       case "off":
       case "停止": {
-        await setWatchEnabled(false);
-        await replyMessage(
-          accessToken,
-          replyToken,
-          "監視を停止しました。\n再開するには「開始」と送信してください。"
-        );
-        logger.info("Monitoring disabled", { userId });
+        await disableAndReply(targetId, accessToken, replyToken);
         break;
       }
 
       case "clear":
       case "全削除": {
-        await clearTargetDates();
+        await clearTargetDates(targetId);
         await replyMessage(
           accessToken,
           replyToken,
-          "全ての監視日を削除しました。\n全日程を監視対象にします。"
+          "全ての監視日とルールを削除しました。\n全日程を監視対象にします。",
+          [datePickerAction(), QUICK_STATUS]
         );
-        logger.info("All target dates cleared", { userId });
+        logger.info("All target dates cleared", { targetId });
         break;
       }
 
       case "status":
       case "状態": {
-        const config = await getWatchConfig();
-        const state = await getWatchState();
-        const statusText = config?.enabled ? "ON（監視中）" : "OFF（停止中）";
-        const dates = config?.targetDates;
-        const dateInfo =
-          dates && dates.length > 0
-            ? `監視日（${dates.length}件）:\n${formatDatesForDisplay(dates)}`
-            : "監視日: 全日程";
-
-        // Format last check time (JST)
-        let lastCheckInfo = "最終チェック: なし";
-        if (state?.checkedAt) {
-          lastCheckInfo = `最終チェック: ${formatTimestampJST(state.checkedAt)}`;
+        const config = await getWatchConfig(targetId);
+        const state = await getWatchState(targetId);
+        const facilities = await listFacilities();
+        const selectedId = config?.facilityId ?? DEFAULT_FACILITY_ID;
+        const selectedLabel =
+          facilities.find((f) => f.name === selectedId)?.label ?? selectedId;
+
+        const settings: InfoSection = {
+          rows: [
+            [
+              "状態",
+              config?.enabled
+                ? "ON（監視中）"
+                : config?.resumeAt
+                  ? `OFF（${formatTimestampJST(config.resumeAt)}に再開）`
+                  : "OFF（停止中）",
+            ],
+            ["監視間隔", `${getIntervalMinutes(config)}分ごと`],
+            [
+              "時間帯",
+              config?.timeWindow
+                ? formatTimeWindow(config.timeWindow)
+                : "全時間",
+            ],
+            ["選択中の施設", selectedLabel],
+            [
+              "おやすみ時間",
+              config?.quietHours
+                ? formatTimeWindow(config.quietHours)
+                : "なし",
+            ],
+            [
+              "再通知",
+              config?.renotify ? formatRenotifyPolicy(config.renotify) : "なし",
+            ],
+            ["埋まり通知", config?.notifyClosed ? "オン" : "オフ"],
+            ["通知後", AFTER_FOUND_LABELS[config?.afterFound ?? "keep"]],
+          ],
+        };
+
+        const dates = config?.targetDates ?? [];
+        const rules = config?.dateRules ?? [];
+        const dateSections: InfoSection[] = [];
+        if (dates.length > 0) {
+          dateSections.push({
+            title: `監視日（${dates.length}件）`,
+            lines: formatTargetsForDisplay(
+              dates,
+              facilities,
+              state?.notBookableTargets
+            ).split("\n"),
+          });
+        }
+        if (rules.length > 0) {
+          const today = getTodayJST();
+          dateSections.push({
+            title: `監視ルール（${rules.length}件）`,
+            lines: rules.map((r) => formatRuleForDisplay(r, facilities, today)),
+          });
+        }
+        if (isWatchingAllDates(config)) {
+          dateSections.push({ rows: [["監視日", "全日程"]] });
         }
 
-        // Format last notification time (JST)
-        let lastNotifyInfo = "";
+        // Availability, check times (JST) and error streak
+        const checkRows: [string, string][] = [
+          ["現在の空き", state?.has ? "あり" : "なし"],
+          [
+            "最終チェック",
+            state?.checkedAt ? formatTimestampJST(state.checkedAt) : "なし",
+          ],
+        ];
         if (state?.lastNotifiedAt) {
-          lastNotifyInfo = `\n最終通知: ${formatTimestampJST(state.lastNotifiedAt)}`;
+          checkRows.push(["最終通知", formatTimestampJST(state.lastNotifiedAt)]);
+        }
+        if (state?.heldOpenings?.length) {
+          checkRows.push([
+            "おやすみ中の空き",
+            `${state.heldOpenings.length}件（終了後に通知）`,
+          ]);
+        }
+        if (state?.consecutiveFailures) {
+          checkRows.push([
+            "取得エラー",
+            `${state.consecutiveFailures}回連続` +
+              (state.failingSince
+                ? `（${formatTimestampJST(state.failingSince)}から）`
+                : ""),
+          ]);
+          if (state.lastError) {
+            checkRows.push(["最後のエラー", state.lastError]);
+          }
         }
-
-        // Current availability status
-        const availabilityInfo = state?.has ? "現在の空き: あり" : "現在の空き: なし";
-
-        // Monitoring interval
-        const interval = config?.intervalMinutes ?? 2;
 
         await replyMessage(
           accessToken,
           replyToken,
-          `【現在の設定】\n\n` +
-            `状態: ${statusText}\n` +
-            `監視間隔: ${interval}分ごと\n\n` +
-            `${dateInfo}\n\n` +
-            `${availabilityInfo}\n` +
-            `${lastCheckInfo}${lastNotifyInfo}`
+          buildInfoMessage(
+            "現在の設定",
+            [settings, ...dateSections, { rows: checkRows }],
+            [
+              config?.enabled
+                ? {
+                    type: "postback",
+                    label: "監視を停止",
+                    data: encodePostback({ action: "disable" }),
+                    displayText: "停止",
+                  }
+                : {
+                    type: "postback",
+                    label: "監視を開始",
+                    data: encodePostback({ action: "enable" }),
+                    displayText: "開始",
+                  },
+              { type: "message", label: "使い方", text: "使い方" },
+            ]
+          )
         );
         break;
       }
@@ -377,25 +2300,7 @@ async function processEvent(
       case "使い方":
       case "help":
       case "ヘルプ": {
-        await replyMessage(
-          accessToken,
-          replyToken,
-          "【サウナ予約監視ボット 使い方】\n\n" +
-            "■ 初期設定\n" +
-            "「登録」: 通知を受け取る登録\n\n" +
-            "■ 監視の開始・停止\n" +
-            "「開始」: 監視を開始\n" +
-            "「停止」: 監視を停止\n\n" +
-            "■ 監視日の管理（複数可）\n" +
-            "「1/15」: 1月15日を追加\n" +
-            "「1/2 1/3 1/4」: 複数日を一括追加\n" +
-            "「削除 1/15」: 1月15日を削除\n" +
-            "「全削除」: 全日付を削除\n\n" +
-            "■ 監視間隔\n" +
-            "「5分」: 5分間隔に変更（1〜60分）\n\n" +
-            "■ 状態確認\n" +
-            "「状態」: 現在の設定を表示"
-        );
+        await replyMessage(accessToken, replyToken, buildHelpMessage());
         break;
       }
 
@@ -405,13 +2310,14 @@ async function processEvent(
           replyToken,
           "コマンドが認識できませんでした。\n\n" +
             "「使い方」と送信すると\n" +
-            "使い方の一覧が表示されます。"
+            "使い方の一覧が表示されます。",
+          [QUICK_HELP, QUICK_STATUS, datePickerAction()]
         );
         break;
       }
     }
   } catch (err) {
-    logger.error("Error processing event", { error: err, text, userId });
+    logger.error("Error processing event", { error: err, text, targetId });
     // Try to send error message
     try {
       await replyMessage(
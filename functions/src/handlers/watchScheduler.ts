@@ -1,32 +1,1039 @@
 /**
  * Watch Scheduler Handler
  *
- * Runs every 2 minutes to check availability and send notifications.
- * Respects the enabled flag to minimize unnecessary API calls.
+ * Runs every minute to check availability and send notifications.
+ * Fans out to every active subscriber and respects each subscriber's
+ * enabled flag and check interval to minimize unnecessary API calls.
+ * Monitoring paused for a while is turned back on at its resume time.
+ * Target dates are grouped by facility so each week page is fetched once
+ * per run, however many dates and subscribers it serves, and a facility
+ * that returns HTTP errors is not fetched for a while. Slots that open
+ * or close on the fetched pages are recorded in the availability history.
+ * Recurring date rules are expanded into dates within the bookable horizon
+ * on each run. Added dates that have passed are removed with a notice.
+ * Openings found during a subscriber's quiet hours are held and sent as
+ * one digest after the quiet hours end. Notified slots can be notified
+ * again while they stay open, and reported when they close. After an
+ * alert, a date can be removed or monitoring paused. The single-user
+ * version's settings are moved to its subscriber on the first run after
+ * upgrading.
  */
 
 import { onSchedule } from "firebase-functions/v2/scheduler";
-import { defineSecret } from "firebase-functions/params";
+import {
+  defineInt,
+  defineSecret,
+  defineString,
+} from "firebase-functions/params";
 import { logger } from "firebase-functions/v2";
+import type {
+  AvailabilityCheckResult,
+  FacilityCheckResult,
+  FacilityDoc,
+  HeldOpening,
+  PageHealthDoc,
+  NotifiedSlot,
+  OpenSlot,
+  OpenSlotMap,
+  SlotRef,
+  SubscriberDoc,
+  TargetDate,
+  WatchConfigDoc,
+  WatchStateDoc,
+  LineFlexMessage,
+  LineMessageInput,
+} from "../types/index.js";
+import type { AvailabilityCard, WatchTarget } from "../lib/index.js";
 import {
-  checkAvailability,
-  getTargetUrl,
+  checkFacilityDates,
+  filterSlotsByWindow,
+  formatOpenSlot,
+  getReservationUrl,
   getWatchConfig,
   getWatchState,
   updateWatchState,
-  getLineTarget,
+  clearHeldNotifications,
+  getActiveSubscribers,
+  migrateLegacyWatch,
+  isCheckDue,
+  isResumeDue,
+  setWatchEnabled,
+  isFetchBackedOff,
+  nextFetchBackoff,
+  saveFetchBackoff,
+  getFacility,
+  getPageHealth,
+  savePageHealth,
+  nextLayoutHealth,
   pushMessage,
+  isRecipientRejected,
+  deactivateSubscriber,
+  targetKey,
+  allDatesKey,
+  slotId,
+  findNewlyOpened,
+  hasOpenSlots,
+  nextFailureStreak,
+  buildAvailabilityMessage,
+  encodePostback,
+  clearReminders,
+  collectObservedSlots,
+  diffObservedSlots,
+  mergeObservedSlots,
+  getFacilityState,
+  saveFacilityState,
+  appendHistoryEvents,
+  getWatchTargets,
+  isWatchingAllDates,
+  findExpiredTargets,
+  expireTargetDates,
+  getTodayJST,
+  formatMonthDay,
+  formatTimestampJST,
+  formatTimeWindow,
+  isInQuietHours,
+  holdOpenings,
+  isHeldOpeningOpen,
+  holdClosings,
+  reviewNotifiedSlots,
+  markNotified,
+  slotRefKey,
+  isSameSlot,
+  planAfterFound,
+  removeTargetDate,
+  WHOLE_DAY_SLOT,
+  DEFAULT_FACILITY_ID,
+  REMIND_MINUTES,
 } from "../lib/index.js";
 
 // Define secrets
 const lineChannelAccessToken = defineSecret("LINE_CHANNEL_ACCESS_TOKEN");
 
+// Define params
+const ownerUserId = defineString("OWNER_LINE_USER_ID", { default: "" });
+const layoutAlertThreshold = defineInt("LAYOUT_ALERT_THRESHOLD", {
+  default: 3,
+});
+const errorAlertMinutes = defineInt("ERROR_ALERT_MINUTES", { default: 30 });
+const historyRetentionDays = defineInt("HISTORY_RETENTION_DAYS", {
+  default: 90,
+});
+
+/** A subscriber that is due for a check on this run */
+interface DueSubscriber {
+  subscriber: SubscriberDoc;
+  config: WatchConfigDoc;
+  state: WatchStateDoc | null;
+  /** Dates to check, including rule dates (empty in all-dates mode) */
+  watchTargets: WatchTarget[];
+}
+
+/**
+ * Page-walk results of this run, keyed by facility name.
+ * Facilities that are not registered map to null.
+ */
+type FacilityResults = Map<
+  string,
+  { facility: FacilityDoc; result: FacilityCheckResult } | null
+>;
+
+/**
+ * Fetches the pages needed by all due subscribers.
+ * Target dates are grouped by facility so that each facility's week pages
+ * are walked once and every date on a page is evaluated from one fetch.
+ */
+async function fetchFacilityResults(
+  dueSubscribers: DueSubscriber[]
+): Promise<FacilityResults> {
+  const datesByFacility = new Map<string, Set<string>>();
+  const datesOf = (facilityId: string): Set<string> => {
+    let dates = datesByFacility.get(facilityId);
+    if (!dates) {
+      dates = new Set();
+      datesByFacility.set(facilityId, dates);
+    }
+    return dates;
+  };
+
+  for (const { config, watchTargets } of dueSubscribers) {
+    if (isWatchingAllDates(config)) {
+      // All-dates mode only needs the first page
+      datesOf(config.facilityId ?? DEFAULT_FACILITY_ID);
+    }
+    for (const target of watchTargets) {
+      datesOf(target.facilityId).add(target.date);
+    }
+  }
+
+  const results: FacilityResults = new Map();
+  await Promise.all(
+    [...datesByFacility].map(async ([facilityId, dates]) => {
+      const facility = await getFacility(facilityId);
+      if (!facility) {
+        results.set(facilityId, null);
+        return;
+      }
+      const health = await getPageHealth(facilityId);
+      if (health?.backoffUntil && isFetchBackedOff(health)) {
+        logger.info("Facility is backing off after HTTP errors, skipping", {
+          facilityId,
+          backoffUntil: health.backoffUntil,
+        });
+        results.set(facilityId, {
+          facility,
+          result: backedOffResult([...dates], health.backoffUntil),
+        });
+        return;
+      }
+      const result = await checkFacilityDates(facility, [...dates]);
+      logger.info("Facility pages checked", {
+        facilityId,
+        dates: dates.size,
+        pagesFetched: result.pagesFetched,
+      });
+      results.set(facilityId, { facility, result });
+      await trackFetchBackoff(facilityId, health, result);
+    })
+  );
+  return results;
+}
+
+/**
+ * Builds the result of a facility whose pages are not fetched during a
+ * backoff. Every date counts as failed, so subscribers keep their last
+ * known state and their failure streak continues.
+ */
+function backedOffResult(
+  dates: string[],
+  backoffUntil: number
+): FacilityCheckResult {
+  const failed: AvailabilityCheckResult = {
+    hasAvailability: false,
+    openSlots: [],
+    error:
+      "HTTPエラーが続いているため、" +
+      `${formatTimestampJST(backoffUntil)}まで取得を控えています`,
+  };
+  return {
+    allDates: failed,
+    byDate: new Map(dates.map((date) => [date, failed])),
+    pagesFetched: 0,
+    layoutRecognized: true,
+  };
+}
+
+/**
+ * Backs off a facility after HTTP errors, so its pages are not fetched
+ * again for a while whichever subscribers are due. The delay doubles
+ * with every error in a row and the streak ends on the next fetch
+ * without one.
+ *
+ * @param health - Page health before this run
+ */
+async function trackFetchBackoff(
+  facilityId: string,
+  health: PageHealthDoc | null,
+  result: FacilityCheckResult
+): Promise<void> {
+  const httpStatus = [result.allDates, ...result.byDate.values()].find(
+    (r) => r.httpStatus
+  )?.httpStatus;
+  const backoff = nextFetchBackoff(health, httpStatus);
+  if (backoff) {
+    logger.warn("HTTP error, backing off facility", {
+      facilityId,
+      httpStatus,
+      ...backoff,
+    });
+    await saveFetchBackoff(facilityId, backoff);
+  } else if (health?.httpFailures) {
+    await saveFetchBackoff(facilityId, null);
+  }
+}
+
+/**
+ * Tracks unrecognized page layouts per facility and alerts the owner
+ * after too many in a row, and again when parsing recovers.
+ */
+async function trackLayoutHealth(
+  results: FacilityResults,
+  accessToken: string
+): Promise<void> {
+  for (const [facilityId, entry] of results) {
+    // A failed first fetch says nothing about the layout
+    if (!entry || entry.result.allDates.error) {
+      continue;
+    }
+    const { facility, result } = entry;
+
+    const previous = await getPageHealth(facilityId);
+    const { health, alert } = nextLayoutHealth(
+      previous,
+      result.layoutRecognized,
+      layoutAlertThreshold.value()
+    );
+    if (!result.layoutRecognized) {
+      logger.warn("Reservation page layout not recognized", {
+        facilityId,
+        unrecognizedStreak: health.unrecognizedStreak,
+      });
+    }
+
+    if (alert) {
+      const owner = ownerUserId.value();
+      const message =
+        alert === "broken"
+          ? `【${facility.label}】予約ページのレイアウトを認識できません` +
+            `（${health.unrecognizedStreak}回連続）。\n` +
+            "ページの構成が変わり、監視が機能していない可能性があります。\n" +
+            getReservationUrl(facility)
+          : `【${facility.label}】予約ページの解析が復旧しました。\n` +
+            "監視は正常に動作しています。";
+      if (!owner) {
+        logger.warn("OWNER_LINE_USER_ID is not set, skipping layout alert", {
+          facilityId,
+          alert,
+        });
+      } else {
+        try {
+          await pushMessage(accessToken, owner, message);
+          logger.info("Layout alert sent", { facilityId, alert });
+        } catch (err) {
+          logger.error("Failed to send layout alert", {
+            error: err,
+            facilityId,
+          });
+        }
+      }
+    }
+
+    if (
+      !previous ||
+      previous.unrecognizedStreak !== health.unrecognizedStreak ||
+      previous.alerted !== health.alerted
+    ) {
+      await savePageHealth(facilityId, health);
+    }
+  }
+}
+
+/**
+ * Records the slots that opened or closed on each facility's pages
+ * since the previous run in the availability history.
+ */
+async function recordHistory(
+  results: FacilityResults,
+  today: string
+): Promise<void> {
+  const now = Date.now();
+
+  for (const [facilityId, entry] of results) {
+    if (!entry || entry.result.allDates.error) {
+      continue;
+    }
+    const current = collectObservedSlots(entry.result);
+    if (Object.keys(current).length === 0) {
+      continue;
+    }
+
+    const previous = (await getFacilityState(facilityId))?.observedSlots ?? {};
+    const events = diffObservedSlots(facilityId, previous, current, now);
+    if (events.length > 0) {
+      await appendHistoryEvents(events, historyRetentionDays.value());
+      logger.info("Availability changes recorded", {
+        facilityId,
+        opened: events.filter((e) => e.change === "open").length,
+        closed: events.filter((e) => e.change === "close").length,
+      });
+    }
+    await saveFacilityState(
+      facilityId,
+      mergeObservedSlots(previous, current, today)
+    );
+  }
+}
+
+/**
+ * Updates a subscriber's failure streak after a check.
+ * The subscriber is alerted once checks have failed for
+ * ERROR_ALERT_MINUTES, and again when they recover. Checks skipped while
+ * a facility backs off count as failed.
+ *
+ * @param failure - The first failed result of this check, if any
+ * @returns Failure fields to store in the watch state
+ */
+async function trackFailures(
+  { subscriber, state: previousState }: DueSubscriber,
+  failure: AvailabilityCheckResult | undefined,
+  accessToken: string
+): Promise<Partial<WatchStateDoc>> {
+  const userId = subscriber.userId;
+  const now = Date.now();
+  const streak = nextFailureStreak(previousState, failure?.error, now);
+  const wasAlerted = previousState?.failureAlerted ?? false;
+
+  if (!failure) {
+    if (wasAlerted) {
+      await pushToSubscriber(
+        accessToken,
+        userId,
+        "空き状況の取得が復旧しました。\n監視は正常に動作しています。"
+      );
+    }
+    return {};
+  }
+
+  const consecutiveFailures = streak.consecutiveFailures ?? 1;
+  const failingMinutes = Math.floor(
+    (now - (streak.failingSince ?? now)) / (60 * 1000)
+  );
+  logger.warn("Check failed", { userId, consecutiveFailures, failingMinutes });
+
+  let failureAlerted = wasAlerted;
+  if (!wasAlerted && failingMinutes >= errorAlertMinutes.value()) {
+    failureAlerted = await pushToSubscriber(
+      accessToken,
+      userId,
+      `空き状況の取得に${failingMinutes}分間失敗しています` +
+        `（${consecutiveFailures}回連続）。\n` +
+        `最後のエラー: ${failure.error}\n` +
+        "復旧するまで空きの通知が届かない可能性があります。"
+    );
+    if (failureAlerted) {
+      logger.info("Failure alert sent", { userId });
+    }
+  }
+
+  return {
+    ...streak,
+    ...(failureAlerted ? { failureAlerted } : {}),
+  };
+}
+
 /**
- * Scheduled function that runs every 2 minutes.
+ * Pushes a message to a subscriber.
+ * If LINE rejects the recipient (the user blocked the bot), the
+ * subscription is deactivated so later runs stop pushing to them.
+ *
+ * @returns true if the message was sent
+ */
+async function pushToSubscriber(
+  accessToken: string,
+  userId: string,
+  message: LineMessageInput
+): Promise<boolean> {
+  try {
+    await pushMessage(accessToken, userId, message);
+    return true;
+  } catch (err) {
+    if (isRecipientRejected(err)) {
+      logger.warn("Push rejected, deactivating subscriber", {
+        error: err,
+        userId,
+      });
+      await deactivateSubscriber(userId);
+    } else {
+      logger.error("Failed to push message", { error: err, userId });
+    }
+    return false;
+  }
+}
+
+/**
+ * Lists dates grouped by facility (e.g., "【サウナ】1/15, 1/16").
+ */
+async function formatDatesByFacility(targets: TargetDate[]): Promise<string> {
+  const sections: string[] = [];
+  for (const facilityId of [...new Set(targets.map((t) => t.facilityId))]) {
+    const label = (await getFacility(facilityId))?.label ?? facilityId;
+    const dates = targets
+      .filter((t) => t.facilityId === facilityId)
+      .map((t) => formatMonthDay(t.date));
+    sections.push(`【${label}】${dates.join(", ")}`);
+  }
+  return sections.join("\n");
+}
+
+/**
+ * Removes a subscriber's target dates that have passed and tells them
+ * which dates were removed, and whether monitoring was stopped because
+ * no dates were left.
+ *
+ * @returns The config after the removal
+ */
+async function expirePastDates(
+  userId: string,
+  today: string,
+  accessToken: string
+): Promise<WatchConfigDoc | null> {
+  const { expired, disabled } = await expireTargetDates(userId, today);
+  if (expired.length > 0) {
+    logger.info("Past target dates expired", {
+      userId,
+      expired: expired.map(targetKey),
+      disabled,
+    });
+
+    await pushToSubscriber(
+      accessToken,
+      userId,
+      "過ぎた日付を監視対象から削除しました。\n" +
+        (await formatDatesByFacility(expired)) +
+        (disabled
+          ? "\n\n監視する日付がなくなったため、監視を停止しました。\n" +
+            "日付を追加して「開始」を送ると再開します。"
+          : "")
+    );
+  }
+  return getWatchConfig(userId);
+}
+
+/**
+ * Turns paused monitoring back on and tells the subscriber.
+ *
+ * @returns The config after resuming
+ */
+async function resumeWatch(
+  userId: string,
+  accessToken: string
+): Promise<WatchConfigDoc | null> {
+  await setWatchEnabled(userId, true);
+  logger.info("Paused monitoring resumed", { userId });
+  await pushToSubscriber(
+    accessToken,
+    userId,
+    "監視を再開しました。\n空きが出たら通知します。"
+  );
+  return getWatchConfig(userId);
+}
+
+/**
+ * Removes alerted dates or pauses monitoring as the subscriber chose,
+ * and tells them what was done.
+ *
+ * @param alerted - Dates alerted in this check
+ * @param allDatesAlerted - Whether all-dates availability was alerted
+ */
+async function applyAfterFound(
+  userId: string,
+  config: WatchConfigDoc,
+  alerted: WatchTarget[],
+  allDatesAlerted: boolean,
+  accessToken: string
+): Promise<void> {
+  const plan = planAfterFound(config, alerted, allDatesAlerted);
+  if (plan.remove.length === 0 && !plan.pause) {
+    return;
+  }
+
+  for (const target of plan.remove) {
+    await removeTargetDate(userId, target.date, target.facilityId);
+  }
+  if (plan.pause) {
+    await setWatchEnabled(userId, false);
+  }
+  logger.info("After-found mode applied", {
+    userId,
+    removed: plan.remove.map(targetKey),
+    paused: plan.pause,
+  });
+
+  const lines: string[] = [];
+  if (plan.remove.length > 0) {
+    lines.push(
+      "通知した日付を監視対象から削除しました。",
+      await formatDatesByFacility(plan.remove)
+    );
+  }
+  if (plan.pause) {
+    lines.push(
+      ...(lines.length > 0 ? [""] : []),
+      "空きを通知したため、監視を停止しました。",
+      "再開するには「開始」と送信してください。"
+    );
+  }
+  await pushToSubscriber(accessToken, userId, lines.join("\n"));
+}
+
+/** Open slots found for one facility (and target date, if any) */
+interface FacilityOpenings {
+  /** Target key the slots belong to */
+  key: string;
+  facility: FacilityDoc;
+  target?: WatchTarget;
+  slots: OpenSlot[];
+}
+
+/**
+ * Lists the given slot IDs of openings as slot references.
+ *
+ * @param ids - Slot IDs per target key
+ */
+function toSlotRefs(
+  openings: FacilityOpenings[],
+  ids: OpenSlotMap
+): SlotRef[] {
+  return openings.flatMap((o) =>
+    (ids[o.key] ?? []).map((id) => ({
+      facilityId: o.facility.name,
+      ...(o.target ? { date: o.target.date } : {}),
+      slotId: id,
+    }))
+  );
+}
+
+/**
+ * Narrows openings down to the given slots.
+ */
+function pickSlots(
+  openings: FacilityOpenings[],
+  refs: SlotRef[]
+): FacilityOpenings[] {
+  return openings
+    .map((o) => ({
+      o,
+      ids: refs
+        .filter((ref) => slotRefKey(ref) === o.key)
+        .map((ref) => ref.slotId),
+    }))
+    .filter(({ ids }) => ids.length > 0)
+    .map(({ o, ids }) => ({
+      ...o,
+      slots: o.slots.filter((slot) => ids.includes(slotId(slot))),
+    }));
+}
+
+/**
+ * Formats a slot for plain-text messages.
+ */
+function formatSlotRef(ref: SlotRef): string {
+  if (ref.slotId !== WHOLE_DAY_SLOT) {
+    return ref.slotId;
+  }
+  // Non-calendar page: only the date is known
+  return ref.date ? formatMonthDay(ref.date) : "日付不明";
+}
+
+/**
+ * Lists slots grouped by facility, each group headed by the facility
+ * label and optionally followed by its reservation page.
+ */
+async function formatSlotsByFacility<T extends SlotRef>(
+  slots: T[],
+  formatLine: (slot: T) => string,
+  withUrl: boolean
+): Promise<string> {
+  const sections: string[] = [];
+  for (const facilityId of [...new Set(slots.map((s) => s.facilityId))]) {
+    const facility = await getFacility(facilityId);
+    const lines = slots
+      .filter((s) => s.facilityId === facilityId)
+      .map(formatLine);
+    sections.push(
+      `【${facility?.label ?? facilityId}】\n${lines.join("\n")}` +
+        (withUrl && facility ? `\n${getReservationUrl(facility)}` : "")
+    );
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Builds the availability notification: a card per facility and date,
+ * with the plain-text listing as the altText.
+ *
+ * @param openings - Open slots grouped by facility and target date
+ * @param title - Headline of the message and its cards
+ */
+function buildNotificationMessage(
+  openings: FacilityOpenings[],
+  title = "空きが見つかりました！"
+): LineFlexMessage {
+  const sections: string[] = [];
+  const facilities = [...new Set(openings.map((o) => o.facility))];
+
+  for (const facility of facilities) {
+    const lines = openings
+      .filter((o) => o.facility === facility)
+      .flatMap((o) => {
+        if (o.slots.length > 0) {
+          return o.slots.map(formatOpenSlot);
+        }
+        // Non-calendar page: only the date is known
+        return o.target ? [formatMonthDay(o.target.date)] : [];
+      });
+    sections.push(
+      `【${facility.label}】\n` +
+        (lines.length > 0 ? `${lines.join("\n")}\n` : "") +
+        getReservationUrl(facility)
+    );
+  }
+  const altText = `${title}\n\n${sections.join("\n\n")}`;
+
+  const cards: AvailabilityCard[] = openings.map((o) => ({
+    title,
+    facilityLabel: o.facility.label,
+    ...(o.target ? { dateLabel: formatMonthDay(o.target.date) } : {}),
+    slots: o.slots.map(formatOpenSlot),
+    reservationUrl: getReservationUrl(o.facility),
+    // Dates expanded from a rule cannot be removed one by one
+    ...(!o.target?.rule
+      ? {
+          bookedData: encodePostback({
+            action: "booked",
+            ...(o.target ? { date: o.target.date } : {}),
+            facilityId: o.facility.name,
+          }),
+        }
+      : {}),
+    ...(o.target && !o.target.rule
+      ? {
+          stopData: encodePostback({
+            action: "removeDate",
+            date: o.target.date,
+            facilityId: o.facility.name,
+          }),
+        }
+      : {}),
+    remindData: encodePostback({
+      action: "snooze",
+      ...(o.target ? { date: o.target.date } : {}),
+      facilityId: o.facility.name,
+      minutes: REMIND_MINUTES,
+    }),
+  }));
+
+  return buildAvailabilityMessage(cards, altText);
+}
+
+/**
+ * Builds the digest of openings held during quiet hours: each slot with
+ * when it was found and whether it is still open, and the reservation
+ * page of each facility.
+ *
+ * @param currentOpen - Open slots per target key from this check
+ */
+async function buildDigestMessage(
+  held: HeldOpening[],
+  currentOpen: OpenSlotMap,
+  config: WatchConfigDoc
+): Promise<string> {
+  const listing = await formatSlotsByFacility(
+    held,
+    (h) => {
+      const status = isHeldOpeningOpen(h, currentOpen)
+        ? "まだ空いています"
+        : "埋まりました";
+      return (
+        `${formatSlotRef(h)}（${formatTimestampJST(h.openedAt)}に検知）` +
+        `→ ${status}`
+      );
+    },
+    true
+  );
+  const window = config.quietHours
+    ? `（${formatTimeWindow(config.quietHours)}）`
+    : "";
+  return `おやすみ中${window}に見つかった空き\n\n${listing}`;
+}
+
+/**
+ * Lists the open slot IDs after time-window filtering.
+ * Pages without a calendar grid have no slot times, so an open page
+ * counts as one whole-day slot.
+ */
+function openSlotIds(
+  result: AvailabilityCheckResult,
+  slots: OpenSlot[]
+): string[] {
+  if (!result.grid) {
+    return result.hasAvailability ? [WHOLE_DAY_SLOT] : [];
+  }
+  return slots.map(slotId);
+}
+
+/**
+ * Checks availability for one subscriber and notifies about every date
+ * or slot that went from closed to open, or that is still open when a
+ * "30分後に再通知" reminder is due. During quiet hours the openings are
+ * held, and the first check after them sends the held openings.
+ */
+async function checkSubscriber(
+  due: DueSubscriber,
+  results: FacilityResults,
+  accessToken: string
+): Promise<void> {
+  const { subscriber, config, state: previousState, watchTargets } = due;
+  const userId = subscriber.userId;
+  const previousOpen = previousState?.openSlots ?? {};
+
+  // Step 1: Check availability for each target date (or all dates if none specified)
+  const currentOpen: OpenSlotMap = {};
+  const openings: FacilityOpenings[] = [];
+  const notBookableTargets: string[] = [];
+  let failure: AvailabilityCheckResult | undefined;
+
+  if (!isWatchingAllDates(config)) {
+    // Check each target date
+    for (const target of watchTargets) {
+      const key = targetKey(target);
+      const entry = results.get(target.facilityId);
+      const result = entry?.result.byDate.get(target.date);
+      if (!entry || !result) {
+        logger.warn("Facility not registered, skipping target", {
+          userId,
+          ...target,
+        });
+        continue;
+      }
+      const facility = entry.facility;
+      if (result.error) {
+        logger.error("Availability check failed", {
+          error: result.error,
+          userId,
+          ...target,
+        });
+        failure ??= result;
+        // Keep the last known state so the date is not re-notified on recovery
+        if (previousOpen[key]) {
+          currentOpen[key] = previousOpen[key];
+        }
+        continue;
+      }
+      if (result.notBookable) {
+        logger.info("Target date is not bookable yet", { userId, ...target });
+        notBookableTargets.push(key);
+        currentOpen[key] = [];
+        continue;
+      }
+      const slots = filterSlotsByWindow(
+        result.openSlots,
+        target.timeWindow ?? config.timeWindow
+      );
+      currentOpen[key] = openSlotIds(result, slots);
+      if (currentOpen[key].length > 0) {
+        openings.push({ key, facility, target, slots });
+      }
+    }
+    logger.info("Availability check result", {
+      userId,
+      availableTargets: openings.map((o) => o.key),
+      checkedDates: watchTargets.length,
+    });
+  } else {
+    // Check all dates of the selected facility
+    const facilityId = config.facilityId ?? DEFAULT_FACILITY_ID;
+    const entry = results.get(facilityId);
+    if (!entry) {
+      logger.warn("Selected facility not registered, skipping", {
+        userId,
+        facilityId,
+      });
+      // Record the check anyway so the interval still applies
+      const { checkedAt: _checkedAt, ...state } = previousState ?? {
+        has: false,
+      };
+      await updateWatchState(userId, state);
+      return;
+    }
+    const facility = entry.facility;
+    const result = entry.result.allDates;
+    const key = allDatesKey(facilityId);
+    if (result.error) {
+      logger.error("Availability check failed", {
+        error: result.error,
+        userId,
+      });
+      failure = result;
+      if (previousOpen[key]) {
+        currentOpen[key] = previousOpen[key];
+      }
+    } else {
+      const slots = filterSlotsByWindow(result.openSlots, config.timeWindow);
+      currentOpen[key] = openSlotIds(result, slots);
+      if (currentOpen[key].length > 0) {
+        openings.push({ key, facility, slots });
+      }
+      logger.info("Availability check result (all dates)", {
+        userId,
+        facilityId,
+        openSlots: currentOpen[key].length,
+      });
+    }
+  }
+
+  // Step 2: Find dates and slots that went from closed to open.
+  // Targets with a due reminder count as closed, so open slots are re-sent.
+  const now = Date.now();
+  const dueReminders = Object.entries(config.reminders ?? {})
+    .filter(([, remindAt]) => remindAt <= now)
+    .map(([key]) => key);
+  const notifiedOpen = Object.fromEntries(
+    Object.entries(previousOpen).filter(([key]) => !dueReminders.includes(key))
+  );
+  const newlyOpened = findNewlyOpened(notifiedOpen, currentOpen);
+  const newOpenings = openings
+    .filter((o) => newlyOpened[o.key])
+    .map((o) => ({
+      ...o,
+      slots: o.slots.filter((slot) =>
+        newlyOpened[o.key].includes(slotId(slot))
+      ),
+    }));
+  const hasAvailability = hasOpenSlots(currentOpen);
+  const quiet =
+    config.quietHours !== undefined && isInQuietHours(config.quietHours, now);
+  let heldOpenings = previousState?.heldOpenings ?? [];
+  let notified = false;
+  // Slots the subscriber is told are open in this check
+  const openedRefs: SlotRef[] = [];
+  // Targets alerted for the first time since they opened
+  const alerted: SlotRef[] = [];
+
+  if (!quiet && heldOpenings.length > 0) {
+    const digest = await buildDigestMessage(heldOpenings, currentOpen, config);
+    if (await pushToSubscriber(accessToken, userId, digest)) {
+      logger.info("Quiet hours digest sent", {
+        userId,
+        openings: heldOpenings.length,
+      });
+      openedRefs.push(
+        ...heldOpenings.filter((h) => isHeldOpeningOpen(h, currentOpen))
+      );
+      alerted.push(...heldOpenings);
+      heldOpenings = [];
+      notified = true;
+    }
+  }
+
+  const shouldNotify = newOpenings.length > 0;
+  if (shouldNotify && quiet) {
+    logger.info("New availability during quiet hours, holding", {
+      userId,
+      newlyOpened,
+    });
+    heldOpenings = holdOpenings(
+      heldOpenings,
+      newOpenings.flatMap((o) =>
+        newlyOpened[o.key].map((id) => ({
+          facilityId: o.facility.name,
+          ...(o.target ? { date: o.target.date } : {}),
+          slotId: id,
+          openedAt: now,
+        }))
+      )
+    );
+  } else if (shouldNotify) {
+    logger.info("New availability detected, sending notification", {
+      userId,
+      newlyOpened,
+    });
+
+    const message = buildNotificationMessage(newOpenings);
+
+    // Still update state even if notification fails, but only act on
+    // alerts the subscriber received
+    if (await pushToSubscriber(accessToken, userId, message)) {
+      logger.info("Notification sent successfully", { userId });
+      alerted.push(...toSlotRefs(newOpenings, newlyOpened));
+      openedRefs.push(...toSlotRefs(newOpenings, newlyOpened));
+    }
+    notified = true;
+  } else if (hasAvailability) {
+    logger.info("Availability still present, not re-notifying", { userId });
+  } else {
+    logger.info("No availability", { userId });
+  }
+  if (dueReminders.length > 0) {
+    await clearReminders(userId, dueReminders);
+    logger.info("Reminders processed", { userId, keys: dueReminders });
+  }
+
+  // Step 3: Remind about notified slots that stay open, and report the
+  // ones that closed. Reminders are skipped during quiet hours, while
+  // closings are held and reported once quiet hours end.
+  const review = reviewNotifiedSlots(
+    previousState?.notifiedSlots,
+    currentOpen,
+    config.renotify,
+    now
+  );
+  const closings = config.notifyClosed
+    ? holdClosings(previousState?.heldClosings, review.closed, currentOpen)
+    : [];
+  const heldClosings = quiet ? closings : [];
+  let reminded: NotifiedSlot[] = [];
+  if (!quiet) {
+    // Only slots seen in this check can be shown; a failed or backed-off
+    // fetch keeps the previous slot IDs but not the slots themselves
+    const remindable = review.due.filter(
+      (slot) =>
+        openings.some((o) => o.key === slotRefKey(slot)) &&
+        !openedRefs.some((ref) => isSameSlot(ref, slot))
+    );
+    if (remindable.length > 0) {
+      logger.info("Slots still open, notifying again", {
+        userId,
+        slots: remindable.map((slot) => `${slotRefKey(slot)} ${slot.slotId}`),
+      });
+      const message = buildNotificationMessage(
+        pickSlots(openings, remindable),
+        "まだ空いています"
+      );
+      if (await pushToSubscriber(accessToken, userId, message)) {
+        reminded = remindable;
+      }
+      notified = true;
+    }
+    if (closings.length > 0) {
+      const listing = await formatSlotsByFacility(
+        closings,
+        formatSlotRef,
+        false
+      );
+      await pushToSubscriber(
+        accessToken,
+        userId,
+        `通知した空きが埋まりました\n\n${listing}`
+      );
+      notified = true;
+    }
+  }
+  const notifiedSlots = markNotified(review.open, openedRefs, reminded, now);
+
+  // Step 4: Remove alerted dates or pause monitoring if so chosen
+  const alertedKeys = alerted.map(slotRefKey);
+  await applyAfterFound(
+    userId,
+    config,
+    watchTargets.filter((t) => alertedKeys.includes(targetKey(t))),
+    alerted.some((ref) => !ref.date),
+    accessToken
+  );
+
+  // Step 5: Track consecutive failures (backoff and alerts)
+  const failureState = await trackFailures(due, failure, accessToken);
+
+  // Step 6: Save per-target state (targets no longer watched are dropped)
+  const lastNotifiedAt = notified ? now : previousState?.lastNotifiedAt;
+  await updateWatchState(userId, {
+    has: hasAvailability,
+    openSlots: currentOpen,
+    notBookableTargets,
+    ...(lastNotifiedAt ? { lastNotifiedAt } : {}),
+    ...failureState,
+    ...(heldOpenings.length > 0 ? { heldOpenings } : {}),
+    ...(heldClosings.length > 0 ? { heldClosings } : {}),
+    ...(notifiedSlots.length > 0 ? { notifiedSlots } : {}),
+  });
+}
+
+/**
+ * Scheduled function that runs every minute.
+ * Each subscriber is checked only when its intervalMinutes has elapsed.
  */
 export const watchScheduler = onSchedule(
   {
-    schedule: "every 2 minutes",
+    schedule: "every 1 minutes",
     timeZone: "Asia/Tokyo",
     secrets: [lineChannelAccessToken],
     region: "asia-northeast1",
@@ -34,129 +1041,92 @@ export const watchScheduler = onSchedule(
   },
   async () => {
     const startTime = Date.now();
+    const today = getTodayJST(startTime);
     logger.info("Watch scheduler started");
 
     try {
-      // Step 1: Check if monitoring is enabled
-      const config = await getWatchConfig();
-      if (!config?.enabled) {
-        logger.info("Monitoring is disabled, skipping check");
-        return;
-      }
+      const accessToken = lineChannelAccessToken.value();
 
-      // Step 2: Get target user
-      const target = await getLineTarget();
-      if (!target?.userId) {
-        logger.warn("No target user registered, skipping");
-        return;
+      // Move the single-user version's settings over (once, after upgrading)
+      const migratedUserId = await migrateLegacyWatch();
+      if (migratedUserId) {
+        logger.info("Legacy watch settings migrated", {
+          userId: migratedUserId,
+        });
       }
 
-      // Step 3: Check availability for each target date (or all dates if none specified)
-      const targetDates = config.targetDates;
-      let hasAvailability = false;
-      let availableDates: string[] = [];
-
-      if (targetDates && targetDates.length > 0) {
-        // Check each target date
-        for (const targetDate of targetDates) {
-          const result = await checkAvailability(targetDate);
-          if (result.error) {
-            logger.error("Availability check failed", {
-              error: result.error,
-              targetDate,
-            });
-            continue;
-          }
-          if (result.hasAvailability) {
-            hasAvailability = true;
-            availableDates.push(targetDate);
+      // Step 1: Collect subscribers with monitoring enabled and a check due,
+      // removing dates that have passed and resuming paused monitoring
+      const subscribers = await getActiveSubscribers();
+      const targets: DueSubscriber[] = [];
+      for (const subscriber of subscribers) {
+        let config = await getWatchConfig(subscriber.userId);
+        if (config && findExpiredTargets(config, today).length > 0) {
+          config = await expirePastDates(subscriber.userId, today, accessToken);
+        }
+        if (config && isResumeDue(config, startTime)) {
+          config = await resumeWatch(subscriber.userId, accessToken);
+        }
+        const state = await getWatchState(subscriber.userId);
+        if (!config?.enabled) {
+          // Monitoring was stopped or paused after a quiet night; do not
+          // send the held items when it is turned back on
+          if (state?.heldOpenings || state?.heldClosings) {
+            await clearHeldNotifications(subscriber.userId);
           }
+          continue;
         }
-        logger.info("Availability check result", {
-          hasAvailability,
-          availableDates,
-          checkedDates: targetDates.length,
-        });
-      } else {
-        // Check all dates
-        const result = await checkAvailability(undefined);
-        if (result.error) {
-          logger.error("Availability check failed", { error: result.error });
-          return;
+        if (!isCheckDue(config, state, startTime)) {
+          continue;
         }
-        hasAvailability = result.hasAvailability;
-        logger.info("Availability check result (all dates)", { hasAvailability });
+        targets.push({
+          subscriber,
+          config,
+          state,
+          watchTargets: isWatchingAllDates(config)
+            ? []
+            : getWatchTargets(config, today),
+        });
       }
 
-      // Step 4: Get previous state and check if target dates changed
-      const previousState = await getWatchState();
-      const previousTargetDates = previousState?.checkedTargetDates ?? [];
-      const currentTargetDates = targetDates ?? [];
-
-      // Normalize for comparison (sort and stringify)
-      const prevDatesKey = [...previousTargetDates].sort().join(",");
-      const currDatesKey = [...currentTargetDates].sort().join(",");
-      const targetDatesChanged = prevDatesKey !== currDatesKey;
-
-      if (targetDatesChanged) {
-        logger.info("Target dates changed, resetting state", {
-          previous: previousTargetDates,
-          current: currentTargetDates,
-        });
+      if (targets.length === 0) {
+        logger.info("No subscriber is due for a check, skipping");
+        return;
       }
 
-      // If target dates changed, treat as fresh start (ignore previous availability)
-      const hadAvailability = targetDatesChanged
-        ? false
-        : (previousState?.has ?? false);
-
-      // Step 5: Determine if notification is needed
-      // Only notify when state changes from false to true
-      const shouldNotify = !hadAvailability && hasAvailability;
-
-      if (shouldNotify) {
-        logger.info("Availability detected, sending notification");
-
-        const accessToken = lineChannelAccessToken.value();
-        const targetUrl = getTargetUrl();
-
-        // Format dates for message
-        let dateInfo = "";
-        if (availableDates.length > 0) {
-          const formattedDates = availableDates
-            .map((d) => {
-              const [year, month, day] = d.split("-");
-              return `${year}年${parseInt(month, 10)}月${parseInt(day, 10)}日`;
-            })
-            .join("\n");
-          dateInfo = `以下の日程で空きが見つかりました！\n${formattedDates}\n\n`;
-        } else {
-          dateInfo = "空きが見つかりました！\n\n";
-        }
+      // Step 2: Fetch each facility's pages once for all subscribers,
+      // skipping facilities that back off after HTTP errors
+      const results = await fetchFacilityResults(targets);
+
+      // Step 3: Alert the owner if page layouts stop being recognized
+      await trackLayoutHealth(results, accessToken);
 
-        const message =
-          `${dateInfo}` +
-          `今すぐ予約ページを確認してください:\n` +
-          `${targetUrl}`;
+      // Step 4: Record slots that opened or closed since the last run
+      await recordHistory(results, today);
 
+      // Step 5: Evaluate each subscriber against the fetched pages
+      for (const target of targets) {
         try {
-          await pushMessage(accessToken, target.userId, message);
-          logger.info("Notification sent successfully");
+          await checkSubscriber(target, results, accessToken);
         } catch (err) {
-          logger.error("Failed to send notification", { error: err });
-          // Still update state even if notification fails
+          // Keep going so one subscriber cannot block the others
+          logger.error("Subscriber check failed", {
+            error: err,
+            userId: target.subscriber.userId,
+          });
         }
-      } else if (hasAvailability) {
-        logger.info("Availability still present, not re-notifying");
-      } else {
-        logger.info("No availability");
       }
 
-      // Step 6: Update state with current target dates
-      await updateWatchState(hasAvailability, shouldNotify, currentTargetDates);
-
+      const fetchedPages = [...results.values()].reduce(
+        (sum, entry) => sum + (entry?.result.pagesFetched ?? 0),
+        0
+      );
       const duration = Date.now() - startTime;
-      logger.info("Watch scheduler completed", { duration, hasAvailability });
+      logger.info("Watch scheduler completed", {
+        duration,
+        subscribers: targets.length,
+        fetchedPages,
+      });
     } catch (err) {
       logger.error("Watch scheduler error", { error: err });
       throw err; // Let Cloud Functions handle the error
@@ -0,0 +1,94 @@
+/**
+ * What happens to a date after it is found
+ *
+ * Once a date's first availability alert has been sent, the date can be
+ * removed or monitoring paused ("通知後 削除" / "通知後 停止"), so a date
+ * that has been booked stops alerting. The mode is set for all dates and
+ * can be overridden per date.
+ */
+
+import type {
+  AfterFoundMode,
+  TargetDate,
+  WatchConfigDoc,
+} from "../types/index.js";
+import type { WatchTarget } from "./dateRules.js";
+
+/** Command words of each mode */
+export const AFTER_FOUND_LABELS: Record<AfterFoundMode, string> = {
+  keep: "継続",
+  remove: "削除",
+  pause: "停止",
+};
+
+/** Operations to run after this check's alerts */
+export interface AfterFoundPlan {
+  /** Added dates to remove */
+  remove: TargetDate[];
+  /** Whether to pause monitoring */
+  pause: boolean;
+}
+
+/**
+ * Parses a mode from its command word ("継続", "削除" or "停止").
+ */
+export function parseAfterFoundMode(input: string): AfterFoundMode | null {
+  const entry = Object.entries(AFTER_FOUND_LABELS).find(
+    ([, label]) => label === input
+  );
+  return entry ? (entry[0] as AfterFoundMode) : null;
+}
+
+/**
+ * Returns the mode of a date, falling back to the config-wide mode.
+ *
+ * @param target - The date, or undefined when all dates are watched
+ */
+export function getAfterFoundMode(
+  config: WatchConfigDoc,
+  target?: TargetDate
+): AfterFoundMode {
+  return target?.afterFound ?? config.afterFound ?? "keep";
+}
+
+/**
+ * Decides what to do after alerts were sent.
+ * Dates expanded from a rule cannot be removed one by one and are kept.
+ * When every added date is removed and no rule is left, monitoring is
+ * paused instead of falling back to watching all dates. In all-dates
+ * mode both "remove" and "pause" pause monitoring.
+ *
+ * @param alerted - Dates that were alerted in this check
+ * @param allDatesAlerted - Whether all-dates availability was alerted
+ */
+export function planAfterFound(
+  config: WatchConfigDoc,
+  alerted: WatchTarget[],
+  allDatesAlerted = false
+): AfterFoundPlan {
+  const remove: TargetDate[] = [];
+  let pause = allDatesAlerted && getAfterFoundMode(config) !== "keep";
+
+  for (const target of alerted) {
+    const mode = getAfterFoundMode(config, target);
+    if (mode === "pause") {
+      pause = true;
+    } else if (mode === "remove" && !target.rule) {
+      const { rule: _rule, ...added } = target;
+      remove.push(added);
+    }
+  }
+
+  const remaining = (config.targetDates ?? []).filter(
+    (t) =>
+      !remove.some((r) => r.date === t.date && r.facilityId === t.facilityId)
+  );
+  if (
+    remove.length > 0 &&
+    remaining.length === 0 &&
+    !config.dateRules?.length
+  ) {
+    pause = true;
+  }
+  return { remove, pause };
+}
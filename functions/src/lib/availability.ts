@@ -5,82 +5,285 @@
  * - Header table (cl-header): <th class="cl-day"><span>1/2<span>(金)</span></span></th>
  * - Data table (cl-container): <td class="cl-day"><div class="cl-day-content"><span class="symbol-black">●</span></div></td>
  * - Markers: ● (symbol-black) = available, ▲ = limited, × (symbol-gray) = closed
+ * - Week paging: a link to the following week ("次週" / class containing "next")
  */
 
-const TARGET_URL = "https://select-type.com/rsv/?id=0AEeQuFE0HM";
+import type {
+  AvailabilityCheckResult,
+  AvailabilityColumn,
+  AvailabilityGrid,
+  FacilityCheckResult,
+  FacilityDoc,
+  OpenSlot,
+  ParsedCalendarPage,
+  SlotMarker,
+} from "../types/index.js";
+import { toDateString } from "./jstDate.js";
+
+const SELECTTYPE_RSV_URL = "https://select-type.com/rsv/";
+
+const CONTAINER_PATTERN =
+  /<table[^>]*class="[^"]*cl-container[^"]*"[^>]*>[\s\S]*?<\/table>/i;
+const HEADER_CELL_PATTERN =
+  /<th[^>]*class="[^"]*cl-day[^"]*"[^>]*>[\s\S]*?<\/th>/gi;
+const ROW_PATTERN = /<tr>[\s\S]*?<\/tr>/gi;
+const TIME_CELL_PATTERN =
+  /<td[^>]*class="[^"]*cl-time[^"]*"[^>]*>([\s\S]*?)<\/td>/i;
+const DAY_CELL_PATTERN =
+  /<td[^>]*class="[^"]*cl-day[^"]*"[^>]*>[\s\S]*?<\/td>/gi;
+const LINK_PATTERN = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+
+/** Maximum number of week pages followed to find a target date */
+const MAX_WEEK_PAGES = 8;
+
+/** Days ahead that the followed week pages can cover */
+export const BOOKABLE_HORIZON_DAYS = MAX_WEEK_PAGES * 7;
 
 /**
- * Extracts column index for a target date from SelectType calendar header.
+ * Extracts the date labels from SelectType calendar header cells.
  * SelectType uses format "M/D" (e.g., "1/15", "12/3") in header cells.
  *
  * @param html - The HTML content
- * @param month - Target month (1-12)
- * @param day - Target day (1-31)
- * @returns Column index (0-based, excluding time column) or -1 if not found
+ * @returns One entry per cl-day header cell (null if the cell has no date)
  */
-function findDateColumnIndex(html: string, month: number, day: number): number {
+function parseHeaderDates(
+  html: string
+): ({ label: string; year?: number; month: number; day: number } | null)[] {
   // SelectType header format: <th class="cl-day..."><span...>M/D<span...>(曜日)</span></span></th>
-  // Pattern: look for date in header cells
-  const dateStr = `${month}/${day}`;
-
-  // Find all cl-day header cells and their dates
-  const headerPattern =
-    /<th[^>]*class="[^"]*cl-day[^"]*"[^>]*>[\s\S]*?<\/th>/gi;
-  const headers = html.match(headerPattern) || [];
-
-  for (let i = 0; i < headers.length; i++) {
-    // Check if this header contains our target date
-    // Date appears as "M/D" followed by day-of-week in parentheses
-    if (headers[i].includes(`>${dateStr}<`) || headers[i].includes(`>${dateStr}(`)) {
-      return i;
+  const headers = html.match(HEADER_CELL_PATTERN) || [];
+
+  return headers.map((header) => {
+    // Date appears as "M/D" (or "YYYY/M/D") followed by day-of-week in parentheses
+    const dateMatch = header.match(
+      />\s*(?:(\d{4})\/)?(\d{1,2})\/(\d{1,2})\s*[<(]/
+    );
+    if (!dateMatch) {
+      return null;
     }
-    // Also check for format without tags: >1/15<span
-    const dateMatch = headers[i].match(/>(\d{1,2}\/\d{1,2})</);
-    if (dateMatch && dateMatch[1] === dateStr) {
-      return i;
+    const month = parseInt(dateMatch[2], 10);
+    const day = parseInt(dateMatch[3], 10);
+    return {
+      label: `${month}/${day}`,
+      ...(dateMatch[1] ? { year: parseInt(dateMatch[1], 10) } : {}),
+      month,
+      day,
+    };
+  });
+}
+
+/**
+ * Finds the year/month caption of the calendar (e.g., "2025年1月").
+ */
+function parseCaptionYearMonth(
+  html: string
+): { year: number; month: number } | null {
+  const match = html.match(/(\d{4})年\s*(\d{1,2})月/);
+  if (!match) {
+    return null;
+  }
+  return { year: parseInt(match[1], 10), month: parseInt(match[2], 10) };
+}
+
+/**
+ * Picks the year for a month so that it lies closest to the caption month.
+ * A week captioned "2025年12月" that shows 1/1 belongs to 2026.
+ */
+function inferYear(
+  month: number,
+  caption: { year: number; month: number }
+): number {
+  const captionIndex = caption.year * 12 + caption.month;
+  const candidates = [caption.year - 1, caption.year, caption.year + 1];
+  return candidates.reduce((best, year) =>
+    Math.abs(year * 12 + month - captionIndex) <
+    Math.abs(best * 12 + month - captionIndex)
+      ? year
+      : best
+  );
+}
+
+/**
+ * Finds the href of the link to the following week.
+ */
+function parseNextWeekHref(html: string): string | undefined {
+  for (const match of html.matchAll(LINK_PATTERN)) {
+    const [, attributes, inner] = match;
+    const href = attributes.match(/href="([^"]+)"/)?.[1];
+    if (!href || href.startsWith("#") || href.startsWith("javascript:")) {
+      continue;
+    }
+    const classes = attributes.match(/class="([^"]*)"/)?.[1] ?? "";
+    if (/next/i.test(classes) || /次週|次の週|翌週/.test(textContent(inner))) {
+      return href.replace(/&amp;/g, "&");
     }
   }
+  return undefined;
+}
 
-  return -1;
+/**
+ * Reads the availability marker of a calendar cell.
+ */
+function parseMarker(cellHtml: string): SlotMarker {
+  if (cellHtml.includes("●")) {
+    return "●";
+  }
+  if (cellHtml.includes("▲")) {
+    return "▲";
+  }
+  if (cellHtml.includes("×")) {
+    return "×";
+  }
+  return "";
+}
+
+/**
+ * Strips tags and surrounding whitespace from an HTML fragment.
+ */
+function textContent(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .trim();
 }
 
 /**
- * Checks if a specific column has availability markers (● or ▲).
+ * Parses the SelectType calendar into a grid of date columns and time rows.
  *
  * @param html - The HTML content
- * @param columnIndex - The column index to check (0-based, excluding time column)
- * @returns true if the column has ● or ▲
- */
-function checkColumnAvailability(html: string, columnIndex: number): boolean {
-  // Find all data rows in cl-container table
-  const rowPattern = /<tr>[\s\S]*?<\/tr>/gi;
-  const containerMatch = html.match(
-    /<table[^>]*class="[^"]*cl-container[^"]*"[^>]*>[\s\S]*?<\/table>/i
-  );
-
+ * @returns The grid, or null if the page has no cl-container table
+ */
+export function parseAvailabilityGrid(html: string): AvailabilityGrid | null {
+  const containerMatch = html.match(CONTAINER_PATTERN);
   if (!containerMatch) {
-    return false;
+    return null;
   }
 
-  const containerHtml = containerMatch[0];
-  const rows = containerHtml.match(rowPattern) || [];
+  const headerDates = parseHeaderDates(html);
+  const caption = parseCaptionYearMonth(html);
+  const columns: AvailabilityColumn[] = headerDates.map((date) => {
+    const year =
+      date?.year ?? (date && caption ? inferYear(date.month, caption) : null);
+    return {
+      label: date?.label ?? "",
+      month: date?.month ?? 0,
+      day: date?.day ?? 0,
+      ...(date && year
+        ? { date: toDateString(year, date.month, date.day) }
+        : {}),
+      slots: [],
+    };
+  });
+  const times: string[] = [];
 
+  const rows = containerMatch[0].match(ROW_PATTERN) || [];
   for (const row of rows) {
     // Extract cl-day cells from this row (skip cl-time cell)
-    const cellPattern = /<td[^>]*class="[^"]*cl-day[^"]*"[^>]*>[\s\S]*?<\/td>/gi;
-    const cells = row.match(cellPattern) || [];
-
-    if (columnIndex < cells.length) {
-      const targetCell = cells[columnIndex];
-      // Check for availability markers
-      // ● appears as symbol-black, ▲ also indicates availability
-      if (targetCell.includes("●") || targetCell.includes("▲")) {
-        return true;
+    const cells = row.match(DAY_CELL_PATTERN) || [];
+    if (cells.length === 0) {
+      continue;
+    }
+    const timeMatch = row.match(TIME_CELL_PATTERN);
+    const time = timeMatch ? textContent(timeMatch[1]) : "";
+    times.push(time);
+
+    cells.forEach((cell, columnIndex) => {
+      if (columnIndex < columns.length) {
+        columns[columnIndex].slots.push({ time, marker: parseMarker(cell) });
+      }
+    });
+  }
+
+  const nextWeekHref = parseNextWeekHref(html);
+  return { times, columns, ...(nextWeekHref ? { nextWeekHref } : {}) };
+}
+
+/**
+ * Parses a reservation page and tells whether its layout was recognized.
+ * A recognized page has a cl-container table with at least one dated
+ * column and one time row.
+ *
+ * @param html - The HTML content
+ */
+export function parseCalendarPage(html: string): ParsedCalendarPage {
+  const grid = parseAvailabilityGrid(html);
+  const recognized =
+    grid !== null &&
+    grid.times.length > 0 &&
+    grid.columns.some((c) => c.label !== "");
+  return recognized ? { layout: "ok", grid } : { layout: "unrecognized", grid };
+}
+
+/**
+ * Finds the grid column for a date.
+ *
+ * Columns with a known year must match the full date; otherwise only
+ * month and day are compared.
+ *
+ * @param grid - Parsed calendar grid
+ * @param targetDate - Date in YYYY-MM-DD format
+ * @returns The column or null if the date is not in the displayed week
+ */
+export function findDateColumn(
+  grid: AvailabilityGrid,
+  targetDate: string
+): AvailabilityColumn | null {
+  const [, month, day] = targetDate.split("-").map((s) => parseInt(s, 10));
+  return (
+    grid.columns.find((c) =>
+      c.date ? c.date === targetDate : c.month === month && c.day === day
+    ) ?? null
+  );
+}
+
+/**
+ * Compares a target date with the week displayed in a grid.
+ * Requires columns with known years.
+ *
+ * @returns "before" / "after" the displayed week, or null if it cannot be told
+ */
+function compareWithWeek(
+  grid: AvailabilityGrid,
+  targetDate: string
+): "before" | "after" | null {
+  const dates = grid.columns
+    .map((c) => c.date)
+    .filter((d): d is string => Boolean(d));
+  if (dates.length === 0) {
+    return null;
+  }
+  if (targetDate < dates[0]) {
+    return "before";
+  }
+  if (targetDate > dates[dates.length - 1]) {
+    return "after";
+  }
+  return null;
+}
+
+/**
+ * Lists the open (● or ▲) slots of the given columns.
+ */
+export function getOpenSlots(columns: AvailabilityColumn[]): OpenSlot[] {
+  const openSlots: OpenSlot[] = [];
+  for (const column of columns) {
+    for (const slot of column.slots) {
+      if (slot.marker === "●" || slot.marker === "▲") {
+        openSlots.push({
+          label: column.label,
+          time: slot.time,
+          marker: slot.marker,
+        });
       }
     }
   }
+  return openSlots;
+}
 
-  return false;
+/**
+ * Formats an open slot for messages (e.g., "1/15 18:00 ▲").
+ */
+export function formatOpenSlot(slot: OpenSlot): string {
+  return `${slot.label} ${slot.time} ${slot.marker}`;
 }
 
 /**
@@ -94,27 +297,13 @@ export function detectAvailability(
   html: string,
   targetDate?: string
 ): boolean {
+  const grid = parseAvailabilityGrid(html);
+
   if (!targetDate) {
     // No date filter: check cl-container table cells for availability
     // This avoids false positives from the legend section
-    const containerMatch = html.match(
-      /<table[^>]*class="[^"]*cl-container[^"]*"[^>]*>[\s\S]*?<\/table>/i
-    );
-
-    if (containerMatch) {
-      // Check only within calendar cells (cl-day-content)
-      const containerHtml = containerMatch[0];
-      // Look for ● or ▲ within cl-day-content divs
-      const cellContentPattern =
-        /<div[^>]*class="[^"]*cl-day-content[^"]*"[^>]*>[\s\S]*?<\/div>/gi;
-      const cellContents = containerHtml.match(cellContentPattern) || [];
-
-      for (const cell of cellContents) {
-        if (cell.includes("●") || cell.includes("▲")) {
-          return true;
-        }
-      }
-      return false;
+    if (grid) {
+      return getOpenSlots(grid.columns).length > 0;
     }
 
     // Fallback for non-SelectType HTML or simple markers
@@ -122,73 +311,201 @@ export function detectAvailability(
     return html.includes(">●<") || html.includes(">▲<");
   }
 
-  // Parse target date
-  const [, month, day] = targetDate.split("-").map((s) => parseInt(s, 10));
-
   // Find which column contains our target date
-  const columnIndex = findDateColumnIndex(html, month, day);
-
-  if (columnIndex === -1) {
+  const column = grid ? findDateColumn(grid, targetDate) : null;
+  if (!column) {
     // Target date not found in current calendar view
     // This could mean the date is not in the displayed week
     return false;
   }
 
   // Check if that column has any availability
-  return checkColumnAvailability(html, columnIndex);
+  return getOpenSlots([column]).length > 0;
 }
 
 /**
- * Fetches the reservation page and checks for availability.
+ * Fetches a reservation page.
  *
- * @param targetDate - Optional date to check (YYYY-MM-DD format)
- * @returns Object containing availability status and any error
+ * @returns The HTML, or an error message and status for non-2xx responses
  */
-export async function checkAvailability(targetDate?: string): Promise<{
-  hasAvailability: boolean;
-  error?: string;
-}> {
-  try {
-    // Build URL - add date parameter if specified
-    let url = TARGET_URL;
-    if (targetDate) {
-      // SelectType may support date parameter - try adding it
-      // Format: YYYYMMDD or YYYY-MM-DD depending on the site
-      const dateParam = targetDate.replace(/-/g, "");
-      url = `${TARGET_URL}&date=${dateParam}`;
-    }
+async function fetchPage(
+  url: string
+): Promise<{ html: string } | { error: string; status: number }> {
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent":
+        "Mozilla/5.0 (compatible; SaunaReserveBot/1.0; +notification-only)",
+      Accept: "text/html",
+    },
+  });
 
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (compatible; SaunaReserveBot/1.0; +notification-only)",
-        Accept: "text/html",
-      },
-    });
+  if (!response.ok) {
+    return {
+      error: `HTTP ${response.status}: ${response.statusText}`,
+      status: response.status,
+    };
+  }
+  return { html: await response.text() };
+}
 
-    if (!response.ok) {
-      return {
-        hasAvailability: false,
-        error: `HTTP ${response.status}: ${response.statusText}`,
-      };
+/**
+ * Checks several dates of a facility, fetching each week page only once.
+ * Starts at the first week and evaluates every date that a page shows
+ * before following the week paging for the dates that remain.
+ *
+ * @param facility - Facility whose reservation pages are checked
+ * @param targetDates - Dates to check (YYYY-MM-DD format); may be empty
+ * @returns The first page's result over all displayed dates, a result per
+ *   target date and the number of pages fetched
+ */
+export async function checkFacilityDates(
+  facility: FacilityDoc,
+  targetDates: string[]
+): Promise<FacilityCheckResult> {
+  const byDate = new Map<string, AvailabilityCheckResult>();
+  let remaining = [...new Set(targetDates)].sort();
+  let allDates: AvailabilityCheckResult | undefined;
+  let pagesFetched = 0;
+  let url = getReservationUrl(facility);
+
+  // Marks every unresolved date (and the first page, if not reached) as failed
+  const fail = (error: string, httpStatus?: number): FacilityCheckResult => {
+    const failed: AvailabilityCheckResult = {
+      hasAvailability: false,
+      openSlots: [],
+      error,
+      ...(httpStatus ? { httpStatus } : {}),
+    };
+    for (const date of remaining) {
+      byDate.set(date, failed);
     }
+    return {
+      allDates: allDates ?? failed,
+      byDate,
+      pagesFetched,
+      layoutRecognized: true,
+    };
+  };
 
-    const html = await response.text();
-    const hasAvailability = detectAvailability(html, targetDate);
+  try {
+    for (let pageCount = 0; pageCount < MAX_WEEK_PAGES; pageCount++) {
+      const page = await fetchPage(url);
+      pagesFetched++;
+      if ("error" in page) {
+        return fail(page.error, page.status);
+      }
+      const html = page.html;
+      const parsed = parseCalendarPage(html);
+      if (parsed.layout === "unrecognized") {
+        // Not a SelectType calendar: fall back to marker matching
+        allDates ??= {
+          hasAvailability: detectAvailability(html),
+          openSlots: [],
+          unrecognizedLayout: true,
+        };
+        for (const date of remaining) {
+          byDate.set(date, {
+            hasAvailability: detectAvailability(html, date),
+            openSlots: [],
+            unrecognizedLayout: true,
+          });
+        }
+        return { allDates, byDate, pagesFetched, layoutRecognized: false };
+      }
+      const grid = parsed.grid;
 
-    return { hasAvailability };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
+      if (!allDates) {
+        const openSlots = getOpenSlots(grid.columns);
+        allDates = { hasAvailability: openSlots.length > 0, grid, openSlots };
+      }
+
+      remaining = remaining.filter((date) => {
+        const column = findDateColumn(grid, date);
+        if (column) {
+          const openSlots = getOpenSlots([column]);
+          byDate.set(date, {
+            hasAvailability: openSlots.length > 0,
+            grid,
+            openSlots,
+          });
+          return false;
+        }
+        // Only move forward; an earlier date is no longer displayed
+        if (compareWithWeek(grid, date) === "before") {
+          byDate.set(date, { hasAvailability: false, grid, openSlots: [] });
+          return false;
+        }
+        return true;
+      });
+
+      if (remaining.length === 0 || !grid.nextWeekHref) {
+        break;
+      }
+      url = new URL(grid.nextWeekHref, url).toString();
+    }
+
+    // Ran out of weeks: the site does not offer these dates (yet)
+    for (const date of remaining) {
+      byDate.set(date, {
+        hasAvailability: false,
+        openSlots: [],
+        notBookable: true,
+      });
+    }
     return {
-      hasAvailability: false,
-      error: `Fetch error: ${message}`,
+      allDates: allDates ?? { hasAvailability: false, openSlots: [] },
+      byDate,
+      pagesFetched,
+      layoutRecognized: true,
     };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return fail(`Fetch error: ${message}`);
   }
 }
 
 /**
- * Returns the target URL for inclusion in notifications.
+ * Fetches the reservation page and checks for availability.
+ * With a target date, follows the week paging until the week that
+ * contains the date is found.
+ *
+ * @param facility - Facility whose reservation page is checked
+ * @param targetDate - Optional date to check (YYYY-MM-DD format)
+ * @returns Object containing availability status, the parsed grid, the
+ *   open slots (limited to targetDate when given) and any error
  */
-export function getTargetUrl(): string {
-  return TARGET_URL;
+export async function checkAvailability(
+  facility: FacilityDoc,
+  targetDate?: string
+): Promise<AvailabilityCheckResult> {
+  const result = await checkFacilityDates(
+    facility,
+    targetDate ? [targetDate] : []
+  );
+  if (!targetDate) {
+    return result.allDates;
+  }
+  return result.byDate.get(targetDate) ?? result.allDates;
+}
+
+/**
+ * Returns the reservation page URL of a facility for inclusion in notifications.
+ */
+export function getReservationUrl(facility: FacilityDoc): string {
+  return `${SELECTTYPE_RSV_URL}?id=${encodeURIComponent(facility.selectTypeId)}`;
+}
+
+/**
+ * Extracts a SelectType page ID from either a bare ID or a reservation URL.
+ *
+ * @param input - "0AEeQuFE0HM" or "https://select-type.com/rsv/?id=0AEeQuFE0HM"
+ * @returns The page ID or null if the input does not look like one
+ */
+export function parseSelectTypeId(input: string): string | null {
+  const trimmed = input.trim();
+  const urlMatch = trimmed.match(/^https?:\/\/[^\s]*[?&]id=([A-Za-z0-9_-]+)/);
+  if (urlMatch) {
+    return urlMatch[1];
+  }
+  return /^[A-Za-z0-9_-]+$/.test(trimmed) ? trimmed : null;
 }
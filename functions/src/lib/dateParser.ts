@@ -0,0 +1,361 @@
+/**
+ * Date expressions in commands
+ *
+ * Parses the dates users type into YYYY-MM-DD: numeric forms ("1/15",
+ * "2025-01-15"), Japanese forms ("1月15日"), relative words ("明日",
+ * "今週の土曜", "来週末") and their full-width variants ("１/１５").
+ * Relative dates and dates without a year are resolved from today's date
+ * in JST, which callers pass in so results do not depend on the server's
+ * time zone. A date without a year means its next occurrence, so "1/5"
+ * sent in late December is next January.
+ */
+
+import { expandDateRange } from "./dateRules.js";
+import {
+  addDays,
+  isValidDate,
+  toDateString,
+  WEEKDAY_CHARS,
+  weekdayOf,
+} from "./jstDate.js";
+
+/** Separators between dates in a multi-date message */
+export const DATE_SEPARATOR = /[\s,、　]+/;
+
+/** Why text that looks like a date was not accepted */
+export type DateInputError =
+  /** Not a calendar date (e.g., "2/31") */
+  | "invalid"
+  /** Before today */
+  | "past";
+
+/** A parsed date, or why it was rejected */
+export type DateParseResult = { date: string } | { error: DateInputError };
+
+/** Parsed dates of an expression that may cover several days */
+export type DateExpressionResult =
+  | { dates: string[] }
+  | { error: DateInputError };
+
+/** Part of a multi-date message that was rejected */
+export interface RejectedDateInput {
+  input: string;
+  error: DateInputError;
+}
+
+export interface DateParseOptions {
+  /**
+   * Accept past dates. Dates without a year then resolve to the
+   * occurrence closest to today instead of the next one.
+   */
+  allowPast?: boolean;
+}
+
+/** Offsets from today for relative day words */
+const RELATIVE_DAYS: Record<string, number> = {
+  今日: 0,
+  きょう: 0,
+  明日: 1,
+  あした: 1,
+  あす: 1,
+  明後日: 2,
+  あさって: 2,
+};
+
+/** Offsets in weeks for "今週" / "来週" / "再来週" */
+const RELATIVE_WEEKS: Record<string, number> = {
+  今週: 0,
+  来週: 1,
+  再来週: 2,
+};
+
+/** Numeric forms: [pattern, index of year (0 = none), month, day] */
+const NUMERIC_FORMATS: [RegExp, number, number, number][] = [
+  // M/D, MM/DD
+  [/^(\d{1,2})\/(\d{1,2})$/, 0, 1, 2],
+  // YYYY/M/D
+  [/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, 1, 2, 3],
+  // M-D
+  [/^(\d{1,2})-(\d{1,2})$/, 0, 1, 2],
+  // YYYY-MM-DD
+  [/^(\d{4})-(\d{1,2})-(\d{1,2})$/, 1, 2, 3],
+  // M月D日, YYYY年M月D日 (the trailing 日 is optional)
+  [/^(?:(\d{4})年)?(\d{1,2})月(\d{1,2})日?$/, 1, 2, 3],
+];
+
+/** Years searched for the next occurrence of a date (covers 2/29) */
+const MAX_YEARS_AHEAD = 8;
+
+/** A date as written: a calendar date, or a month and day without a year */
+type WrittenDate =
+  | { date: string }
+  | { year?: number; month: number; day: number };
+
+/**
+ * Converts full-width digits, slashes and letters to half-width.
+ */
+function normalize(input: string): string {
+  return input.normalize("NFKC").trim();
+}
+
+/**
+ * Returns the Monday of the week containing a date.
+ * Weeks run from Monday to Sunday, so "今週の日曜" is the coming Sunday.
+ */
+function mondayOf(date: string): string {
+  return addDays(date, -((weekdayOf(date) + 6) % 7));
+}
+
+/**
+ * Recognizes a single date without resolving or validating it.
+ */
+function readDate(text: string, today: string): WrittenDate | null {
+  for (const [pattern, yearIndex, monthIndex, dayIndex] of NUMERIC_FORMATS) {
+    const match = text.match(pattern);
+    if (match) {
+      return {
+        ...(yearIndex > 0 && match[yearIndex]
+          ? { year: parseInt(match[yearIndex], 10) }
+          : {}),
+        month: parseInt(match[monthIndex], 10),
+        day: parseInt(match[dayIndex], 10),
+      };
+    }
+  }
+
+  if (text in RELATIVE_DAYS) {
+    return { date: addDays(today, RELATIVE_DAYS[text]) };
+  }
+
+  const weekdayMatch = text.match(
+    /^(今週|来週|再来週)の?([日月火水木金土])(?:曜日?)?$/
+  );
+  if (weekdayMatch) {
+    // Monday-based index: 月 = 0, ..., 日 = 6
+    const index = (WEEKDAY_CHARS.indexOf(weekdayMatch[2]) + 6) % 7;
+    const weeks = RELATIVE_WEEKS[weekdayMatch[1]];
+    return { date: addDays(mondayOf(today), weeks * 7 + index) };
+  }
+
+  return null;
+}
+
+/**
+ * Returns the first occurrence of a month and day on or after a date.
+ * @returns YYYY-MM-DD, or null if the month and day never exist
+ */
+function nextOccurrence(
+  month: number,
+  day: number,
+  from: string
+): string | null {
+  const startYear = parseInt(from.slice(0, 4), 10);
+  for (let year = startYear; year <= startYear + MAX_YEARS_AHEAD; year++) {
+    const date = toDateString(year, month, day);
+    if (isValidDate(year, month, day) && date >= from) {
+      return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the occurrence of a month and day closest to today, looking
+ * one year back and ahead.
+ */
+function nearestOccurrence(
+  month: number,
+  day: number,
+  today: string
+): string | null {
+  const year = parseInt(today.slice(0, 4), 10);
+  const distance = (date: string) =>
+    Math.abs(Date.parse(date) - Date.parse(today));
+  const candidates = [year - 1, year, year + 1]
+    .filter((y) => isValidDate(y, month, day))
+    .map((y) => toDateString(y, month, day))
+    .sort((a, b) => distance(a) - distance(b));
+  return candidates[0] ?? null;
+}
+
+/**
+ * Resolves a written date to a calendar date on or after a date.
+ */
+function resolveDate(
+  written: WrittenDate,
+  today: string,
+  options: DateParseOptions,
+  from = today
+): DateParseResult {
+  let date: string | null;
+  if ("date" in written) {
+    date = written.date;
+  } else if (written.year !== undefined) {
+    date = isValidDate(written.year, written.month, written.day)
+      ? toDateString(written.year, written.month, written.day)
+      : null;
+  } else {
+    date = options.allowPast
+      ? nearestOccurrence(written.month, written.day, today)
+      : nextOccurrence(written.month, written.day, from);
+  }
+
+  if (!date) {
+    return { error: "invalid" };
+  }
+  if (!options.allowPast && date < today) {
+    return { error: "past" };
+  }
+  return { date };
+}
+
+/**
+ * Parses one date.
+ * Supports:
+ * - "1/15" or "01/15" (next occurrence)
+ * - "2025/1/15" or "2025/01/15"
+ * - "1-15" or "01-15" (next occurrence)
+ * - "2025-1-15" or "2025-01-15"
+ * - "1月15日" or "2025年1月15日"
+ * - "今日", "明日", "明後日" (and "あした", "あさって")
+ * - "今週の土曜", "来週の月曜日", "再来週金曜"
+ * - Full-width digits and slashes ("１/１５")
+ *
+ * @param today - Today's date in JST (YYYY-MM-DD)
+ * @returns The date or why it was rejected, or null if the input is not
+ *   a date
+ */
+export function parseDateInput(
+  input: string,
+  today: string,
+  options: DateParseOptions = {}
+): DateParseResult | null {
+  const written = readDate(normalize(input), today);
+  return written ? resolveDate(written, today, options) : null;
+}
+
+/**
+ * Parses one date (see parseDateInput).
+ *
+ * @param today - Today's date in JST (YYYY-MM-DD)
+ * @returns YYYY-MM-DD string or null if invalid
+ */
+export function parseDate(
+  input: string,
+  today: string,
+  options: DateParseOptions = {}
+): string | null {
+  const result = parseDateInput(input, today, options);
+  return result && "date" in result ? result.date : null;
+}
+
+/**
+ * Parses an expression that may stand for several dates: a single date,
+ * or a weekend ("今週末", "来週末") that covers Saturday and Sunday.
+ * Days of this weekend that have already passed are left out.
+ *
+ * @param today - Today's date in JST (YYYY-MM-DD)
+ * @returns Dates in ascending order or why they were rejected, or null if
+ *   the input is not a date
+ */
+export function parseDateExpression(
+  input: string,
+  today: string
+): DateExpressionResult | null {
+  const weekendMatch = normalize(input).match(/^(今週|来週|再来週)末$/);
+  if (weekendMatch) {
+    const saturday = addDays(
+      mondayOf(today),
+      RELATIVE_WEEKS[weekendMatch[1]] * 7 + 5
+    );
+    const dates = [saturday, addDays(saturday, 1)].filter((d) => d >= today);
+    return dates.length > 0 ? { dates } : { error: "past" };
+  }
+  const result = parseDateInput(input, today);
+  if (!result) {
+    return null;
+  }
+  return "date" in result ? { dates: [result.date] } : result;
+}
+
+/**
+ * Parses a date range such as "1/15-1/20" or "1/15〜1/20".
+ * "-" is only accepted between slash dates, since "1-15" is a date.
+ * A start without a year is its next occurrence, and an end without a
+ * year is its first occurrence on or after the start (e.g., "12/28-1/3"
+ * ends next January).
+ *
+ * @param today - Today's date in JST (YYYY-MM-DD)
+ * @returns Start and end (YYYY-MM-DD) or why a side was rejected, or null
+ *   if the input is not a range
+ */
+export function parseDateRange(
+  input: string,
+  today: string
+): { start: string; end: string } | { error: DateInputError } | null {
+  const text = normalize(input);
+  const slashDate = "\\d{1,4}/\\d{1,2}(?:/\\d{1,2})?";
+  const match =
+    text.match(/^(.+?)[〜~](.+)$/) ??
+    text.match(new RegExp(`^(${slashDate})-(${slashDate})$`));
+  if (!match) {
+    return null;
+  }
+  const writtenStart = readDate(match[1].trim(), today);
+  const writtenEnd = readDate(match[2].trim(), today);
+  if (!writtenStart || !writtenEnd) {
+    return null;
+  }
+
+  const start = resolveDate(writtenStart, today, {});
+  if ("error" in start) {
+    return start;
+  }
+  const end = resolveDate(writtenEnd, today, {}, start.date);
+  if ("error" in end) {
+    return end;
+  }
+  return { start: start.date, end: end.date };
+}
+
+/**
+ * Parses multiple dates from input (space or comma separated).
+ * Ranges ("1/15-1/20") and weekends ("来週末") are expanded into every
+ * date they cover.
+ * Example: "1/2 1/3" or "1/2, 1/3" or "1/2　1/3" (full-width space)
+ *
+ * @param today - Today's date in JST (YYYY-MM-DD)
+ * @returns Valid dates (YYYY-MM-DD, ascending) and the parts that look
+ *   like dates but were rejected; other parts are ignored
+ */
+export function parseMultipleDates(
+  input: string,
+  today: string
+): { dates: string[]; rejected: RejectedDateInput[] } {
+  // Split by space (half-width or full-width) or comma
+  const parts = input.split(DATE_SEPARATOR).filter((p) => p.length > 0);
+  const dates: string[] = [];
+  const rejected: RejectedDateInput[] = [];
+
+  for (const part of parts) {
+    const range = parseDateRange(part, today);
+    const result =
+      range && "start" in range
+        ? { dates: expandDateRange(range.start, range.end) ?? [] }
+        : (range ?? parseDateExpression(part, today));
+    if (!result) {
+      continue;
+    }
+    if ("error" in result) {
+      rejected.push({ input: part, error: result.error });
+      continue;
+    }
+    for (const date of result.dates) {
+      if (!dates.includes(date)) {
+        dates.push(date);
+      }
+    }
+  }
+
+  return { dates: dates.sort(), rejected };
+}
@@ -0,0 +1,194 @@
+/**
+ * Date ranges and recurring date rules
+ *
+ * A range ("1/15-1/20") is expanded into concrete target dates when it is
+ * added. A recurring rule ("毎週土曜", "土日 2月") is stored as is and
+ * expanded on each check into the dates that fall within the bookable
+ * horizon, so new weeks are picked up as the site opens them.
+ */
+
+import type { DateRule, TargetDate, WatchConfigDoc } from "../types/index.js";
+import { BOOKABLE_HORIZON_DAYS } from "./availability.js";
+import { targetKey } from "./firestore.js";
+import { addDays, WEEKDAY_CHARS, weekdayOf } from "./jstDate.js";
+
+/** Weekday sets with their own names */
+const NAMED_WEEKDAYS: Record<string, number[]> = {
+  平日: [1, 2, 3, 4, 5],
+  週末: [0, 6],
+};
+
+/** A rule as parsed from a command, before a facility is assigned */
+export type DateRulePattern = Omit<DateRule, "facilityId">;
+
+/** A date to check, either added directly or expanded from a rule */
+export interface WatchTarget extends TargetDate {
+  /** Rule the date was expanded from (omitted for added dates) */
+  rule?: DateRule;
+}
+
+/**
+ * Lists every date from start to end (both inclusive).
+ *
+ * @param start - First date (YYYY-MM-DD)
+ * @param end - Last date (YYYY-MM-DD)
+ * @returns Dates, or null if the end is before the start or the range is
+ *   longer than the bookable horizon
+ */
+export function expandDateRange(start: string, end: string): string[] | null {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (dates.length >= BOOKABLE_HORIZON_DAYS) {
+      return null;
+    }
+    dates.push(date);
+  }
+  return dates.length > 0 ? dates : null;
+}
+
+/**
+ * Parses a recurring rule such as "毎週土曜", "土日 2月", "2月の土日",
+ * "毎週月水金" or "平日".
+ * A single weekday needs "毎週", "曜" or a month so that plain words are
+ * not taken as rules.
+ *
+ * @returns The rule or null if the input is not a rule
+ */
+export function parseDateRule(input: string): DateRulePattern | null {
+  let rest = input.trim().replace(/[\s　]+/g, " ");
+  let month: number | undefined;
+
+  // The month may come first ("2月の土日") or last ("土日 2月")
+  const leadingMonth = rest.match(/^(\d{1,2})月の?\s*(.+)$/);
+  const trailingMonth = rest.match(/^(.+?)\s*(\d{1,2})月$/);
+  if (leadingMonth) {
+    month = parseInt(leadingMonth[1], 10);
+    rest = leadingMonth[2];
+  } else if (trailingMonth) {
+    month = parseInt(trailingMonth[2], 10);
+    rest = trailingMonth[1];
+  }
+  if (month !== undefined && (month < 1 || month > 12)) {
+    return null;
+  }
+
+  const everyWeek = rest.startsWith("毎週");
+  if (everyWeek) {
+    rest = rest.slice("毎週".length).trim();
+  }
+
+  let weekdays = NAMED_WEEKDAYS[rest];
+  if (!weekdays) {
+    const chars = rest.replace(/曜日?/g, "").replace(/[・、,]/g, "");
+    if (!/^[日月火水木金土]+$/.test(chars)) {
+      return null;
+    }
+    const explicit =
+      everyWeek ||
+      month !== undefined ||
+      rest.includes("曜") ||
+      chars.length > 1;
+    if (!explicit) {
+      return null;
+    }
+    weekdays = [...new Set([...chars].map((c) => WEEKDAY_CHARS.indexOf(c)))];
+  }
+
+  return {
+    weekdays: [...weekdays].sort((a, b) => a - b),
+    ...(month !== undefined ? { month } : {}),
+  };
+}
+
+/**
+ * Formats a rule for display (e.g., "毎週土曜", "2月の土日", "平日").
+ */
+export function formatDateRule(rule: DateRulePattern): string {
+  const named = Object.keys(NAMED_WEEKDAYS).find(
+    (name) => NAMED_WEEKDAYS[name].join() === rule.weekdays.join()
+  );
+  const days =
+    named ??
+    rule.weekdays.map((d) => WEEKDAY_CHARS[d]).join("") +
+      (rule.weekdays.length === 1 ? "曜" : "");
+  if (rule.month !== undefined) {
+    return `${rule.month}月の${days}`;
+  }
+  return named ? days : `毎週${days}`;
+}
+
+/**
+ * Expands a rule into the matching dates from today through the horizon.
+ *
+ * @param today - Today's date (YYYY-MM-DD)
+ * @param days - Number of days to cover, including today
+ */
+export function expandDateRule(
+  rule: DateRulePattern,
+  today: string,
+  days = BOOKABLE_HORIZON_DAYS
+): string[] {
+  const dates: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(today, i);
+    const month = parseInt(date.slice(5, 7), 10);
+    if (
+      rule.weekdays.includes(weekdayOf(date)) &&
+      (rule.month === undefined || rule.month === month)
+    ) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Lists the dates to check: added dates plus the dates expanded from
+ * rules. A date both added and expanded keeps the added entry, so its
+ * own time window applies.
+ *
+ * @param today - Today's date (YYYY-MM-DD)
+ * @returns Targets sorted by date, then facility
+ */
+export function getWatchTargets(
+  config: WatchConfigDoc,
+  today: string
+): WatchTarget[] {
+  const targets = new Map<string, WatchTarget>();
+  for (const target of config.targetDates ?? []) {
+    targets.set(targetKey(target), target);
+  }
+  for (const rule of config.dateRules ?? []) {
+    for (const date of expandDateRule(rule, today)) {
+      const target: WatchTarget = { date, facilityId: rule.facilityId, rule };
+      const key = targetKey(target);
+      if (!targets.has(key)) {
+        targets.set(key, target);
+      }
+    }
+  }
+  return [...targets.values()].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.facilityId.localeCompare(b.facilityId)
+  );
+}
+
+/**
+ * Lists the added dates that are before today.
+ *
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function findExpiredTargets(
+  config: WatchConfigDoc,
+  today: string
+): TargetDate[] {
+  return (config.targetDates ?? []).filter((t) => t.date < today);
+}
+
+/**
+ * Checks whether a config watches every date of its selected facility,
+ * which is the case when it has neither added dates nor rules.
+ */
+export function isWatchingAllDates(config: WatchConfigDoc | null): boolean {
+  return !config?.targetDates?.length && !config?.dateRules?.length;
+}
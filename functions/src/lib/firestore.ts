@@ -4,56 +4,294 @@
 
 import { getFirestore } from "firebase-admin/firestore";
 import type {
-  LineTargetDoc,
+  AfterFoundMode,
+  DateRule,
+  FacilityDoc,
+  FacilityStateDoc,
+  HistoryEvent,
+  HistoryEventDoc,
+  LegacyLineTargetDoc,
+  LegacyWatchConfigDoc,
+  OpenSlotMap,
+  PageHealthDoc,
+  RenotifyPolicy,
+  SubscriberDoc,
+  SubscriberType,
+  TargetDate,
+  TimeWindow,
   WatchConfigDoc,
   WatchStateDoc,
 } from "../types/index.js";
+import type { FetchBackoff } from "./pageHealth.js";
+import { DEFAULT_INTERVAL_MINUTES } from "./schedule.js";
 
-// Document paths
-const LINE_TARGET_PATH = "line/target";
-const WATCH_CONFIG_PATH = "watch/config";
-const WATCH_STATE_PATH = "watch/state";
+// Collection / document paths
+const SUBSCRIBERS_COLLECTION = "subscribers";
+const FACILITIES_COLLECTION = "facilities";
+const PAGE_HEALTH_COLLECTION = "pageHealth";
+const FACILITY_STATE_COLLECTION = "facilityState";
+const HISTORY_COLLECTION = "availabilityHistory";
+
+// Documents of the single-user version, read only to migrate them
+const LEGACY_LINE_TARGET_PATH = "line/target";
+const LEGACY_WATCH_CONFIG_PATH = "watch/config";
+
+/** Maximum number of writes in one batch */
+const MAX_BATCH_WRITES = 500;
+
+/** subscribers/{userId}/watch/config */
+function watchConfigPath(userId: string): string {
+  return `${SUBSCRIBERS_COLLECTION}/${userId}/watch/config`;
+}
+
+/** subscribers/{userId}/watch/state */
+function watchStatePath(userId: string): string {
+  return `${SUBSCRIBERS_COLLECTION}/${userId}/watch/state`;
+}
+
+/** Name of the built-in facility used when none is selected */
+export const DEFAULT_FACILITY_ID = "default";
+
+/** Built-in facility (the page this bot originally monitored) */
+const DEFAULT_FACILITY: FacilityDoc = {
+  name: DEFAULT_FACILITY_ID,
+  selectTypeId: "0AEeQuFE0HM",
+  label: "サウナ",
+  updatedAt: 0,
+};
+
+/**
+ * Builds the key that identifies a target date of a facility.
+ */
+export function targetKey(target: TargetDate): string {
+  return `${target.facilityId}:${target.date}`;
+}
 
 /**
- * Gets the LINE target user document.
+ * Builds the key used when all dates of a facility are watched.
  */
-export async function getLineTarget(): Promise<LineTargetDoc | null> {
+export function allDatesKey(facilityId: string): string {
+  return `${facilityId}:*`;
+}
+
+/**
+ * Normalizes stored target dates.
+ * Older documents stored plain YYYY-MM-DD strings; those belong to the
+ * built-in facility.
+ */
+function normalizeTargetDates(
+  raw: (TargetDate | string)[] | undefined
+): TargetDate[] {
+  return (raw ?? []).map((entry) =>
+    typeof entry === "string"
+      ? { date: entry, facilityId: DEFAULT_FACILITY_ID }
+      : entry
+  );
+}
+
+/**
+ * Sorts target dates by date, then facility.
+ */
+function sortTargetDates(targets: TargetDate[]): TargetDate[] {
+  return [...targets].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.facilityId.localeCompare(b.facilityId)
+  );
+}
+
+/**
+ * Converts the single-user version's watch/config document into a
+ * subscriber config. Plain date strings become dates of the built-in
+ * facility, sorted like dates added since.
+ */
+export function migrateLegacyWatchConfig(
+  legacy: LegacyWatchConfigDoc,
+  now: number = Date.now()
+): WatchConfigDoc {
+  const { targetDates, ...rest } = legacy;
+  return {
+    ...rest,
+    ...(targetDates
+      ? { targetDates: sortTargetDates(normalizeTargetDates(targetDates)) }
+      : {}),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Gets a subscriber document.
+ */
+export async function getSubscriber(
+  userId: string
+): Promise<SubscriberDoc | null> {
   const db = getFirestore();
-  const doc = await db.doc(LINE_TARGET_PATH).get();
-  return doc.exists ? (doc.data() as LineTargetDoc) : null;
+  const doc = await db.collection(SUBSCRIBERS_COLLECTION).doc(userId).get();
+  return doc.exists ? (doc.data() as SubscriberDoc) : null;
 }
 
 /**
- * Sets the LINE target user.
+ * Registers a LINE user, group or room as an active subscriber.
+ * @param userId - User, group or room ID to push to
+ * @param type - Kind of chat
+ * @param registeredBy - Member who registered a group or room (members
+ *   approved before are cleared)
  */
-export async function setLineTarget(userId: string): Promise<void> {
+export async function registerSubscriber(
+  userId: string,
+  type: SubscriberType = "user",
+  registeredBy?: string
+): Promise<void> {
   const db = getFirestore();
-  const data: LineTargetDoc = {
+  const data: SubscriberDoc = {
     userId,
+    type,
+    active: true,
+    ...(registeredBy ? { registeredBy, members: [] } : {}),
     updatedAt: Date.now(),
   };
-  await db.doc(LINE_TARGET_PATH).set(data);
+  await db
+    .collection(SUBSCRIBERS_COLLECTION)
+    .doc(userId)
+    .set(data, { merge: true });
+}
+
+/**
+ * Adds a member who may change a group's or room's settings.
+ * @param userId - Group or room ID
+ * @param memberId - userId of the member
+ */
+export async function addChatMember(
+  userId: string,
+  memberId: string
+): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.collection(SUBSCRIBERS_COLLECTION).doc(userId).set(
+    {
+      members: FieldValue.arrayUnion(memberId),
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Deactivates a subscriber and turns off their monitoring, so the
+ * scheduler no longer checks or pushes to them.
+ * Used when the user unfollows (blocks) the bot or LINE rejects pushes.
+ */
+export async function deactivateSubscriber(userId: string): Promise<void> {
+  const db = getFirestore();
+  await db.collection(SUBSCRIBERS_COLLECTION).doc(userId).set(
+    {
+      active: false,
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      enabled: false,
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Moves the single-user version's settings (line/target and watch/config)
+ * to subscribers/{userId}, so the user registered before the upgrade
+ * keeps their dates and alerts. Runs once: line/target is marked as
+ * migrated, and a subscriber config that already exists is kept.
+ * @returns The migrated user ID, or null if there was nothing to migrate
+ */
+export async function migrateLegacyWatch(): Promise<string | null> {
+  const db = getFirestore();
+  const lineTargetRef = db.doc(LEGACY_LINE_TARGET_PATH);
+  const lineTargetDoc = await lineTargetRef.get();
+  const lineTarget = lineTargetDoc.exists
+    ? (lineTargetDoc.data() as LegacyLineTargetDoc)
+    : null;
+  if (!lineTarget?.userId || lineTarget.migratedAt) {
+    return null;
+  }
+  const userId = lineTarget.userId;
+
+  if (!(await getSubscriber(userId))) {
+    await registerSubscriber(userId, "user");
+  }
+  const legacyConfigDoc = await db.doc(LEGACY_WATCH_CONFIG_PATH).get();
+  const configRef = db.doc(watchConfigPath(userId));
+  if (legacyConfigDoc.exists && !(await configRef.get()).exists) {
+    await configRef.set(
+      migrateLegacyWatchConfig(legacyConfigDoc.data() as LegacyWatchConfigDoc)
+    );
+  }
+
+  await lineTargetRef.set({ migratedAt: Date.now() }, { merge: true });
+  return userId;
+}
+
+/**
+ * Lists all active subscribers.
+ */
+export async function getActiveSubscribers(): Promise<SubscriberDoc[]> {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection(SUBSCRIBERS_COLLECTION)
+    .where("active", "==", true)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as SubscriberDoc);
 }
 
 /**
  * Gets the watch config document.
  */
-export async function getWatchConfig(): Promise<WatchConfigDoc | null> {
+export async function getWatchConfig(
+  userId: string
+): Promise<WatchConfigDoc | null> {
   const db = getFirestore();
-  const doc = await db.doc(WATCH_CONFIG_PATH).get();
+  const doc = await db.doc(watchConfigPath(userId)).get();
   return doc.exists ? (doc.data() as WatchConfigDoc) : null;
 }
 
 /**
  * Updates the watch config enabled status.
+ * Any scheduled resume is cancelled.
  */
-export async function setWatchEnabled(enabled: boolean): Promise<void> {
+export async function setWatchEnabled(
+  userId: string,
+  enabled: boolean
+): Promise<void> {
   const db = getFirestore();
-  const data: Partial<WatchConfigDoc> = {
-    enabled,
-    updatedAt: Date.now(),
-  };
-  await db.doc(WATCH_CONFIG_PATH).set(data, { merge: true });
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      enabled,
+      resumeAt: FieldValue.delete(),
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Pauses monitoring until a given time.
+ * @param resumeAt - Time in milliseconds to turn monitoring back on
+ */
+export async function pauseWatch(
+  userId: string,
+  resumeAt: number
+): Promise<void> {
+  const db = getFirestore();
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      enabled: false,
+      resumeAt,
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
 }
 
 /**
@@ -61,10 +299,11 @@ export async function setWatchEnabled(enabled: boolean): Promise<void> {
  * @param intervalMinutes - Interval in minutes (1-60)
  */
 export async function setIntervalMinutes(
+  userId: string,
   intervalMinutes: number
 ): Promise<void> {
   const db = getFirestore();
-  await db.doc(WATCH_CONFIG_PATH).set(
+  await db.doc(watchConfigPath(userId)).set(
     {
       intervalMinutes,
       updatedAt: Date.now(),
@@ -76,20 +315,31 @@ export async function setIntervalMinutes(
 /**
  * Adds a target date for monitoring.
  * @param targetDate - Date in YYYY-MM-DD format
+ * @param facilityId - Facility the date belongs to
  */
-export async function addTargetDate(targetDate: string): Promise<void> {
+export async function addTargetDate(
+  userId: string,
+  targetDate: string,
+  facilityId: string
+): Promise<void> {
   const db = getFirestore();
-  const docRef = db.doc(WATCH_CONFIG_PATH);
+  const docRef = db.doc(watchConfigPath(userId));
   const doc = await docRef.get();
-  const currentDates: string[] =
+  const currentTargets: TargetDate[] =
     (doc.exists && (doc.data() as WatchConfigDoc)?.targetDates) || [];
 
   // Avoid duplicates and sort
-  if (!currentDates.includes(targetDate)) {
-    const newDates = [...currentDates, targetDate].sort();
+  const exists = currentTargets.some(
+    (t) => t.date === targetDate && t.facilityId === facilityId
+  );
+  if (!exists) {
+    const newTargets = sortTargetDates([
+      ...currentTargets,
+      { date: targetDate, facilityId },
+    ]);
     await docRef.set(
       {
-        targetDates: newDates,
+        targetDates: newTargets,
         updatedAt: Date.now(),
       },
       { merge: true }
@@ -100,22 +350,27 @@ export async function addTargetDate(targetDate: string): Promise<void> {
 /**
  * Removes a target date from monitoring.
  * @param targetDate - Date in YYYY-MM-DD format
+ * @param facilityId - Facility the date belongs to
  */
-export async function removeTargetDate(targetDate: string): Promise<boolean> {
+export async function removeTargetDate(
+  userId: string,
+  targetDate: string,
+  facilityId: string
+): Promise<boolean> {
   const db = getFirestore();
-  const docRef = db.doc(WATCH_CONFIG_PATH);
+  const docRef = db.doc(watchConfigPath(userId));
   const doc = await docRef.get();
-  const currentDates: string[] =
+  const currentTargets: TargetDate[] =
     (doc.exists && (doc.data() as WatchConfigDoc)?.targetDates) || [];
 
-  const index = currentDates.indexOf(targetDate);
-  if (index === -1) {
+  const newTargets = currentTargets.filter(
+    (t) => !(t.date === targetDate && t.facilityId === facilityId)
+  );
+  if (newTargets.length === currentTargets.length) {
     return false; // Date not found
   }
 
-  const newDates = currentDates.filter((d) => d !== targetDate);
-
-  if (newDates.length === 0) {
+  if (newTargets.length === 0) {
     // Remove field if empty
     const { FieldValue } = await import("firebase-admin/firestore");
     await docRef.update({
@@ -125,7 +380,7 @@ export async function removeTargetDate(targetDate: string): Promise<boolean> {
   } else {
     await docRef.set(
       {
-        targetDates: newDates,
+        targetDates: newTargets,
         updatedAt: Date.now(),
       },
       { merge: true }
@@ -135,24 +390,378 @@ export async function removeTargetDate(targetDate: string): Promise<boolean> {
 }
 
 /**
- * Clears all target dates.
+ * Checks whether two rules watch the same weekdays, month and facility.
+ */
+function isSameRule(a: DateRule, b: DateRule): boolean {
+  return (
+    a.facilityId === b.facilityId &&
+    a.month === b.month &&
+    a.weekdays.join() === b.weekdays.join()
+  );
+}
+
+/**
+ * Adds a recurring date rule.
+ * @returns false if the same rule is already watched
+ */
+export async function addDateRule(
+  userId: string,
+  rule: DateRule
+): Promise<boolean> {
+  const db = getFirestore();
+  const docRef = db.doc(watchConfigPath(userId));
+  const doc = await docRef.get();
+  const currentRules: DateRule[] =
+    (doc.exists && (doc.data() as WatchConfigDoc)?.dateRules) || [];
+
+  if (currentRules.some((r) => isSameRule(r, rule))) {
+    return false;
+  }
+  await docRef.set(
+    {
+      dateRules: [...currentRules, rule],
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+  return true;
+}
+
+/**
+ * Removes a recurring date rule.
+ * @returns false if the rule is not watched
  */
-export async function clearTargetDates(): Promise<void> {
+export async function removeDateRule(
+  userId: string,
+  rule: DateRule
+): Promise<boolean> {
   const db = getFirestore();
-  const docRef = db.doc(WATCH_CONFIG_PATH);
+  const docRef = db.doc(watchConfigPath(userId));
+  const doc = await docRef.get();
+  const currentRules: DateRule[] =
+    (doc.exists && (doc.data() as WatchConfigDoc)?.dateRules) || [];
+
+  const newRules = currentRules.filter((r) => !isSameRule(r, rule));
+  if (newRules.length === currentRules.length) {
+    return false;
+  }
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await docRef.update({
+    dateRules: newRules.length > 0 ? newRules : FieldValue.delete(),
+    updatedAt: Date.now(),
+  });
+  return true;
+}
+
+/**
+ * Sets the facility that new target dates are added to.
+ */
+export async function setSelectedFacility(
+  userId: string,
+  facilityId: string
+): Promise<void> {
+  const db = getFirestore();
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      facilityId,
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Sets or clears the config-wide time window.
+ * @param window - Window to set, or null to watch all times
+ */
+export async function setTimeWindow(
+  userId: string,
+  window: TimeWindow | null
+): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      timeWindow: window ?? FieldValue.delete(),
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Sets or clears the quiet hours.
+ * @param quietHours - Window to set, or null to push openings at any time
+ */
+export async function setQuietHours(
+  userId: string,
+  quietHours: TimeWindow | null
+): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      quietHours: quietHours ?? FieldValue.delete(),
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Sets or clears the re-notification policy.
+ * @param policy - Policy to set, or null to notify each opening once
+ */
+export async function setRenotifyPolicy(
+  userId: string,
+  policy: RenotifyPolicy | null
+): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      renotify: policy ?? FieldValue.delete(),
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Turns the "埋まりました" message on or off.
+ */
+export async function setNotifyClosed(
+  userId: string,
+  enabled: boolean
+): Promise<void> {
+  const db = getFirestore();
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      notifyClosed: enabled,
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/** Per-date settings of a target date; null clears a setting */
+type TargetDatePatch = {
+  [K in Exclude<keyof TargetDate, "date" | "facilityId">]?:
+    | TargetDate[K]
+    | null;
+};
+
+/**
+ * Updates the per-date settings of a single target date.
+ * @returns false if the target date is not monitored
+ */
+async function updateTargetDate(
+  userId: string,
+  targetDate: string,
+  facilityId: string,
+  patch: TargetDatePatch
+): Promise<boolean> {
+  const db = getFirestore();
+  const docRef = db.doc(watchConfigPath(userId));
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const currentTargets: TargetDate[] =
+      (doc.exists && (doc.data() as WatchConfigDoc)?.targetDates) || [];
+    const index = currentTargets.findIndex(
+      (t) => t.date === targetDate && t.facilityId === facilityId
+    );
+    if (index < 0) {
+      return false;
+    }
+
+    // Firestore rejects undefined, so cleared settings drop their key
+    const updated: Record<string, unknown> = {
+      ...currentTargets[index],
+      ...patch,
+    };
+    for (const [key, value] of Object.entries(updated)) {
+      if (value === null || value === undefined) {
+        delete updated[key];
+      }
+    }
+    const newTargets = currentTargets.map((t, i) =>
+      i === index ? (updated as unknown as TargetDate) : t
+    );
+    tx.set(
+      docRef,
+      {
+        targetDates: newTargets,
+        updatedAt: Date.now(),
+      },
+      { merge: true }
+    );
+    return true;
+  });
+}
+
+/**
+ * Sets or clears the time window of a single target date.
+ * @param window - Window to set, or null to fall back to the config-wide window
+ * @returns false if the target date is not monitored
+ */
+export async function setTargetTimeWindow(
+  userId: string,
+  targetDate: string,
+  facilityId: string,
+  window: TimeWindow | null
+): Promise<boolean> {
+  return updateTargetDate(userId, targetDate, facilityId, {
+    timeWindow: window,
+  });
+}
+
+/**
+ * Sets or clears what happens to dates after their first alert.
+ * @param mode - Mode for all dates, or null to keep watching them
+ */
+export async function setAfterFoundMode(
+  userId: string,
+  mode: AfterFoundMode | null
+): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      afterFound: mode ?? FieldValue.delete(),
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Sets or clears what happens to a single target date after its first
+ * alert.
+ * @param mode - Mode to set, or null to fall back to the config-wide mode
+ * @returns false if the target date is not monitored
+ */
+export async function setTargetAfterFoundMode(
+  userId: string,
+  targetDate: string,
+  facilityId: string,
+  mode: AfterFoundMode | null
+): Promise<boolean> {
+  return updateTargetDate(userId, targetDate, facilityId, {
+    afterFound: mode,
+  });
+}
+
+/**
+ * Schedules a re-notification for a target key.
+ * @param key - Target key ("facilityId:YYYY-MM-DD" or "facilityId:*")
+ * @param remindAt - Time in milliseconds to notify open slots again
+ */
+export async function setReminder(
+  userId: string,
+  key: string,
+  remindAt: number
+): Promise<void> {
+  const db = getFirestore();
+  await db.doc(watchConfigPath(userId)).set(
+    {
+      reminders: { [key]: remindAt },
+      updatedAt: Date.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Removes the reminders of the given target keys.
+ */
+export async function clearReminders(
+  userId: string,
+  keys: string[]
+): Promise<void> {
+  const db = getFirestore();
+  const docRef = db.doc(watchConfigPath(userId));
+  const doc = await docRef.get();
+  const current = (doc.exists && (doc.data() as WatchConfigDoc)?.reminders) || {};
+
+  const remaining = Object.fromEntries(
+    Object.entries(current).filter(([key]) => !keys.includes(key))
+  );
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await docRef.update({
+    reminders:
+      Object.keys(remaining).length > 0 ? remaining : FieldValue.delete(),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Clears all target dates and recurring date rules.
+ */
+export async function clearTargetDates(userId: string): Promise<void> {
+  const db = getFirestore();
+  const docRef = db.doc(watchConfigPath(userId));
   const { FieldValue } = await import("firebase-admin/firestore");
   await docRef.update({
     targetDates: FieldValue.delete(),
+    dateRules: FieldValue.delete(),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Removes target dates before today, along with their reminders.
+ * When no dates or rules remain, monitoring is disabled (and a paused
+ * watch is not resumed) instead of falling back to watching all dates.
+ *
+ * @param today - Today's date in JST (YYYY-MM-DD)
+ * @returns The removed dates, and whether monitoring was disabled
+ */
+export async function expireTargetDates(
+  userId: string,
+  today: string
+): Promise<{ expired: TargetDate[]; disabled: boolean }> {
+  const db = getFirestore();
+  const docRef = db.doc(watchConfigPath(userId));
+  const doc = await docRef.get();
+  const config = doc.exists ? (doc.data() as WatchConfigDoc) : null;
+  const currentTargets = config?.targetDates ?? [];
+
+  const expired = currentTargets.filter((t) => t.date < today);
+  if (!config || expired.length === 0) {
+    return { expired: [], disabled: false };
+  }
+
+  const newTargets = currentTargets.filter((t) => t.date >= today);
+  const expiredKeys = expired.map(targetKey);
+  const reminders = Object.fromEntries(
+    Object.entries(config.reminders ?? {}).filter(
+      ([key]) => !expiredKeys.includes(key)
+    )
+  );
+  const disabled =
+    (config.enabled || config.resumeAt !== undefined) &&
+    newTargets.length === 0 &&
+    !config.dateRules?.length;
+
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await docRef.update({
+    targetDates: newTargets.length > 0 ? newTargets : FieldValue.delete(),
+    reminders:
+      Object.keys(reminders).length > 0 ? reminders : FieldValue.delete(),
+    ...(disabled ? { enabled: false, resumeAt: FieldValue.delete() } : {}),
     updatedAt: Date.now(),
   });
+  return { expired, disabled };
 }
 
 /**
  * Initializes watch config if it doesn't exist.
  */
-export async function ensureWatchConfig(): Promise<WatchConfigDoc> {
+export async function ensureWatchConfig(
+  userId: string
+): Promise<WatchConfigDoc> {
   const db = getFirestore();
-  const docRef = db.doc(WATCH_CONFIG_PATH);
+  const docRef = db.doc(watchConfigPath(userId));
   const doc = await docRef.get();
 
   if (doc.exists) {
@@ -161,7 +770,7 @@ export async function ensureWatchConfig(): Promise<WatchConfigDoc> {
 
   const defaultConfig: WatchConfigDoc = {
     enabled: false,
-    intervalMinutes: 2,
+    intervalMinutes: DEFAULT_INTERVAL_MINUTES,
     updatedAt: Date.now(),
   };
   await docRef.set(defaultConfig);
@@ -171,30 +780,226 @@ export async function ensureWatchConfig(): Promise<WatchConfigDoc> {
 /**
  * Gets the watch state document.
  */
-export async function getWatchState(): Promise<WatchStateDoc | null> {
+export async function getWatchState(
+  userId: string
+): Promise<WatchStateDoc | null> {
   const db = getFirestore();
-  const doc = await db.doc(WATCH_STATE_PATH).get();
+  const doc = await db.doc(watchStatePath(userId)).get();
   return doc.exists ? (doc.data() as WatchStateDoc) : null;
 }
 
 /**
- * Updates the watch state.
- * @param has - Whether availability was found
- * @param notified - Whether a notification was sent
- * @param checkedTargetDates - The target dates that were checked (for change detection)
+ * Replaces the watch state with the result of a check.
+ * The document is overwritten so that removed target keys disappear.
+ * @param userId - Subscriber whose state is updated
+ * @param state - New state (checkedAt is set to now)
  */
 export async function updateWatchState(
-  has: boolean,
-  notified: boolean,
-  checkedTargetDates?: string[]
+  userId: string,
+  state: Omit<WatchStateDoc, "checkedAt">
 ): Promise<void> {
   const db = getFirestore();
-  const now = Date.now();
   const data: WatchStateDoc = {
-    has,
-    checkedAt: now,
-    ...(notified ? { lastNotifiedAt: now } : {}),
-    ...(checkedTargetDates ? { checkedTargetDates } : {}),
+    ...state,
+    checkedAt: Date.now(),
   };
-  await db.doc(WATCH_STATE_PATH).set(data, { merge: true });
+  await db.doc(watchStatePath(userId)).set(data);
+}
+
+/**
+ * Drops the openings and closings held during quiet hours.
+ * The rest of the state, including checkedAt, is kept.
+ */
+export async function clearHeldNotifications(userId: string): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db.doc(watchStatePath(userId)).update({
+    heldOpenings: FieldValue.delete(),
+    heldClosings: FieldValue.delete(),
+  });
+}
+
+/**
+ * Gets a facility by name.
+ * Falls back to the built-in facility for the default name.
+ */
+export async function getFacility(name: string): Promise<FacilityDoc | null> {
+  const db = getFirestore();
+  const doc = await db.collection(FACILITIES_COLLECTION).doc(name).get();
+  if (doc.exists) {
+    return doc.data() as FacilityDoc;
+  }
+  return name === DEFAULT_FACILITY_ID ? DEFAULT_FACILITY : null;
+}
+
+/**
+ * Lists all registered facilities, including the built-in one.
+ */
+export async function listFacilities(): Promise<FacilityDoc[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(FACILITIES_COLLECTION).get();
+  const facilities = snapshot.docs.map((doc) => doc.data() as FacilityDoc);
+  if (!facilities.some((f) => f.name === DEFAULT_FACILITY_ID)) {
+    facilities.unshift(DEFAULT_FACILITY);
+  }
+  return facilities;
+}
+
+/**
+ * Registers or updates a facility.
+ */
+export async function saveFacility(
+  facility: Omit<FacilityDoc, "updatedAt">
+): Promise<void> {
+  const db = getFirestore();
+  const data: FacilityDoc = {
+    ...facility,
+    updatedAt: Date.now(),
+  };
+  await db.collection(FACILITIES_COLLECTION).doc(facility.name).set(data);
+}
+
+/**
+ * Removes a facility from the registry.
+ * @returns false if the facility was not registered
+ */
+export async function deleteFacility(name: string): Promise<boolean> {
+  const db = getFirestore();
+  const docRef = db.collection(FACILITIES_COLLECTION).doc(name);
+  const doc = await docRef.get();
+  if (!doc.exists) {
+    return false;
+  }
+  await docRef.delete();
+  return true;
+}
+
+/**
+ * Gets the layout health of a facility's reservation pages.
+ */
+export async function getPageHealth(
+  facilityId: string
+): Promise<PageHealthDoc | null> {
+  const db = getFirestore();
+  const doc = await db.collection(PAGE_HEALTH_COLLECTION).doc(facilityId).get();
+  return doc.exists ? (doc.data() as PageHealthDoc) : null;
+}
+
+/**
+ * Saves the layout health of a facility's reservation pages.
+ */
+export async function savePageHealth(
+  facilityId: string,
+  health: Omit<PageHealthDoc, "updatedAt">
+): Promise<void> {
+  const db = getFirestore();
+  const data: PageHealthDoc = {
+    ...health,
+    updatedAt: Date.now(),
+  };
+  // Merge so the HTTP error backoff is kept
+  await db
+    .collection(PAGE_HEALTH_COLLECTION)
+    .doc(facilityId)
+    .set(data, { merge: true });
+}
+
+/**
+ * Saves or clears the HTTP error backoff of a facility's pages.
+ * @param backoff - New streak and backoff, or null to clear them
+ */
+export async function saveFetchBackoff(
+  facilityId: string,
+  backoff: FetchBackoff | null
+): Promise<void> {
+  const db = getFirestore();
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await db
+    .collection(PAGE_HEALTH_COLLECTION)
+    .doc(facilityId)
+    .set(
+      {
+        httpFailures: backoff?.httpFailures ?? FieldValue.delete(),
+        backoffUntil: backoff?.backoffUntil ?? FieldValue.delete(),
+        updatedAt: Date.now(),
+      },
+      { merge: true }
+    );
+}
+
+/**
+ * Gets the slots last observed on a facility's pages.
+ */
+export async function getFacilityState(
+  facilityId: string
+): Promise<FacilityStateDoc | null> {
+  const db = getFirestore();
+  const doc = await db
+    .collection(FACILITY_STATE_COLLECTION)
+    .doc(facilityId)
+    .get();
+  return doc.exists ? (doc.data() as FacilityStateDoc) : null;
+}
+
+/**
+ * Saves the slots observed on a facility's pages.
+ */
+export async function saveFacilityState(
+  facilityId: string,
+  observedSlots: OpenSlotMap
+): Promise<void> {
+  const db = getFirestore();
+  const data: FacilityStateDoc = {
+    observedSlots,
+    updatedAt: Date.now(),
+  };
+  await db.collection(FACILITY_STATE_COLLECTION).doc(facilityId).set(data);
+}
+
+/**
+ * Appends availability changes to the history.
+ * @param retentionDays - Days until the TTL policy deletes each event
+ */
+export async function appendHistoryEvents(
+  events: HistoryEvent[],
+  retentionDays: number
+): Promise<void> {
+  const db = getFirestore();
+  const collection = db.collection(HISTORY_COLLECTION);
+  for (let i = 0; i < events.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    for (const event of events.slice(i, i + MAX_BATCH_WRITES)) {
+      const data: HistoryEventDoc = {
+        ...event,
+        expireAt: new Date(event.at + retentionDays * 24 * 60 * 60 * 1000),
+      };
+      batch.set(collection.doc(), data);
+    }
+    await batch.commit();
+  }
+}
+
+/**
+ * Gets the most recent history events of a facility.
+ * @param date - Limits the events to one date (YYYY-MM-DD)
+ * @param limit - Maximum number of events
+ * @returns Events, newest first
+ */
+export async function getHistoryEvents(
+  facilityId: string,
+  date: string | null,
+  limit: number
+): Promise<HistoryEvent[]> {
+  const db = getFirestore();
+  let query = db
+    .collection(HISTORY_COLLECTION)
+    .where("facilityId", "==", facilityId);
+  if (date) {
+    query = query.where("date", "==", date);
+  }
+  const snapshot = await query.orderBy("at", "desc").limit(limit).get();
+  return snapshot.docs.map((doc) => {
+    const { expireAt: _expireAt, ...event } = doc.data() as HistoryEventDoc;
+    return event;
+  });
 }
@@ -0,0 +1,245 @@
+/**
+ * LINE Flex Message builders
+ *
+ * Builds the availability alert card and the info layouts used by the
+ * "状態" and "使い方" replies. Builders take display-ready strings so they
+ * stay independent of Firestore and the page parser.
+ */
+
+import type {
+  FlexBox,
+  FlexBubble,
+  FlexComponent,
+  FlexText,
+  LineAction,
+  LineFlexMessage,
+} from "../types/index.js";
+
+/** LINE brand green, used for primary buttons and headers */
+const COLOR_PRIMARY = "#06C755";
+const COLOR_MUTED = "#888888";
+const COLOR_HEADER_TEXT = "#FFFFFF";
+
+/** Maximum length of a Flex Message altText */
+const MAX_ALT_TEXT_LENGTH = 400;
+
+/** Maximum number of bubbles in a carousel */
+const MAX_CAROUSEL_BUBBLES = 12;
+
+/** Delay offered by the "30分後に再通知" button */
+export const REMIND_MINUTES = 30;
+
+/** One availability alert card (facility and date) */
+export interface AvailabilityCard {
+  /** Header title (defaults to "空きが見つかりました！") */
+  title?: string;
+  facilityLabel: string;
+  /** Date label such as "1/15" (omitted when all dates are watched) */
+  dateLabel?: string;
+  /** Formatted open slots (e.g., "1/15 18:00 ▲") */
+  slots: string[];
+  reservationUrl: string;
+  /** Postback data of "予約できた" (no button when omitted) */
+  bookedData?: string;
+  /** Postback data of "この日の監視をやめる" (no button when omitted) */
+  stopData?: string;
+  /** Postback data of the re-notify button */
+  remindData: string;
+}
+
+/** A titled block of an info layout */
+export interface InfoSection {
+  title?: string;
+  /** Label / value pairs */
+  rows?: [string, string][];
+  /** Free-form lines */
+  lines?: string[];
+}
+
+/**
+ * Wraps a container in a Flex Message, truncating the altText to its limit.
+ */
+function flexMessage(
+  altText: string,
+  contents: LineFlexMessage["contents"]
+): LineFlexMessage {
+  const trimmed =
+    altText.length > MAX_ALT_TEXT_LENGTH
+      ? `${altText.slice(0, MAX_ALT_TEXT_LENGTH - 1)}…`
+      : altText;
+  return { type: "flex", altText: trimmed, contents };
+}
+
+function text(value: string, options: Partial<FlexText> = {}): FlexText {
+  return { type: "text", text: value, wrap: true, ...options };
+}
+
+function header(title: string, subtitle?: string): FlexBox {
+  return {
+    type: "box",
+    layout: "vertical",
+    backgroundColor: COLOR_PRIMARY,
+    paddingAll: "md",
+    contents: [
+      text(title, { weight: "bold", size: "lg", color: COLOR_HEADER_TEXT }),
+      ...(subtitle
+        ? [text(subtitle, { size: "sm", color: COLOR_HEADER_TEXT })]
+        : []),
+    ],
+  };
+}
+
+function row(label: string, value: string): FlexBox {
+  return {
+    type: "box",
+    layout: "baseline",
+    spacing: "sm",
+    contents: [
+      text(label, { size: "sm", color: COLOR_MUTED, flex: 2 }),
+      text(value, { size: "sm", flex: 5 }),
+    ],
+  };
+}
+
+function buttons(actions: LineAction[]): FlexBox {
+  return {
+    type: "box",
+    layout: "vertical",
+    spacing: "sm",
+    contents: actions.map((action, i) => ({
+      type: "button",
+      action,
+      height: "sm",
+      // The first action is the main one
+      style: i === 0 ? "primary" : "secondary",
+      ...(i === 0 ? { color: COLOR_PRIMARY } : {}),
+    })),
+  };
+}
+
+/**
+ * Builds the card for one facility and date.
+ */
+export function buildAvailabilityBubble(card: AvailabilityCard): FlexBubble {
+  const slotLines =
+    card.slots.length > 0
+      ? card.slots.map((slot) => text(slot, { size: "md", weight: "bold" }))
+      : [text("空きあり", { size: "md", weight: "bold" })];
+
+  const actions: LineAction[] = [
+    { type: "uri", label: "予約ページを開く", uri: card.reservationUrl },
+  ];
+  if (card.bookedData) {
+    actions.push({
+      type: "postback",
+      label: "予約できた",
+      data: card.bookedData,
+      displayText: "予約できた",
+    });
+  }
+  if (card.stopData) {
+    actions.push({
+      type: "postback",
+      label: "この日の監視をやめる",
+      data: card.stopData,
+      displayText: "この日の監視をやめる",
+    });
+  }
+  actions.push({
+    type: "postback",
+    label: `${REMIND_MINUTES}分後に再通知`,
+    data: card.remindData,
+    displayText: `${REMIND_MINUTES}分後に再通知`,
+  });
+
+  return {
+    type: "bubble",
+    header: header(card.title ?? "空きが見つかりました！", card.facilityLabel),
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "sm",
+      contents: [
+        row("日付", card.dateLabel ?? "全日程"),
+        { type: "separator", margin: "md" },
+        ...slotLines,
+      ],
+    },
+    footer: buttons(actions),
+  };
+}
+
+/**
+ * Builds the availability alert: one card, or a carousel of cards.
+ *
+ * @param cards - Cards per facility and date
+ * @param altText - Plain-text summary shown in notifications
+ */
+export function buildAvailabilityMessage(
+  cards: AvailabilityCard[],
+  altText: string
+): LineFlexMessage {
+  const bubbles = cards
+    .slice(0, MAX_CAROUSEL_BUBBLES)
+    .map(buildAvailabilityBubble);
+  return flexMessage(
+    altText,
+    bubbles.length === 1 ? bubbles[0] : { type: "carousel", contents: bubbles }
+  );
+}
+
+/**
+ * Builds an info layout with a header, sections and optional buttons.
+ *
+ * @param title - Header title
+ * @param sections - Body sections, separated by lines
+ * @param actions - Footer buttons (the first one is highlighted)
+ */
+export function buildInfoMessage(
+  title: string,
+  sections: InfoSection[],
+  actions: LineAction[] = []
+): LineFlexMessage {
+  const body: FlexComponent[] = [];
+  sections.forEach((section, i) => {
+    if (i > 0) {
+      body.push({ type: "separator", margin: "md" });
+    }
+    const contents: FlexComponent[] = [];
+    if (section.title) {
+      contents.push(text(section.title, { weight: "bold", size: "sm" }));
+    }
+    for (const [label, value] of section.rows ?? []) {
+      contents.push(row(label, value));
+    }
+    for (const line of section.lines ?? []) {
+      contents.push(text(line, { size: "sm" }));
+    }
+    body.push({
+      type: "box",
+      layout: "vertical",
+      spacing: "xs",
+      margin: "md",
+      contents,
+    });
+  });
+
+  const altText = [
+    `【${title}】`,
+    ...sections.map((section) =>
+      [
+        ...(section.title ? [section.title] : []),
+        ...(section.rows ?? []).map(([label, value]) => `${label}: ${value}`),
+        ...(section.lines ?? []),
+      ].join("\n")
+    ),
+  ].join("\n\n");
+
+  return flexMessage(altText, {
+    type: "bubble",
+    size: "giga",
+    header: header(title),
+    body: { type: "box", layout: "vertical", contents: body },
+    ...(actions.length > 0 ? { footer: buttons(actions) } : {}),
+  });
+}
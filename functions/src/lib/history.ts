@@ -0,0 +1,139 @@
+/**
+ * Availability history
+ *
+ * Each run compares the slots shown on a facility's fetched pages with
+ * the slots observed before, and records every slot that opened or
+ * closed as a history event. Dates not shown on this run's pages keep
+ * their previous observation, so paging never looks like a closing.
+ */
+
+import type {
+  FacilityCheckResult,
+  HistoryEvent,
+  OpenSlotMap,
+} from "../types/index.js";
+import { findDateColumn, getOpenSlots } from "./availability.js";
+
+/** A period during which a slot stayed open */
+export interface OpenInterval {
+  facilityId: string;
+  date: string;
+  time: string;
+  openedAt: number;
+  /** Omitted while the slot is still open */
+  closedAt?: number;
+}
+
+/**
+ * Collects the open slot times of every date the fetched pages showed.
+ * Dates whose year is unknown are resolved through the requested dates.
+ *
+ * @returns Open slot times per date (YYYY-MM-DD); dates without openings
+ *   map to an empty list
+ */
+export function collectObservedSlots(
+  result: FacilityCheckResult
+): OpenSlotMap {
+  const observed: OpenSlotMap = {};
+  if (!result.layoutRecognized) {
+    return observed;
+  }
+
+  for (const column of result.allDates.grid?.columns ?? []) {
+    if (column.date) {
+      observed[column.date] = getOpenSlots([column]).map((s) => s.time);
+    }
+  }
+  for (const [date, dateResult] of result.byDate) {
+    if (dateResult.error || !dateResult.grid) {
+      continue;
+    }
+    const column = findDateColumn(dateResult.grid, date);
+    if (column) {
+      observed[date] = getOpenSlots([column]).map((s) => s.time);
+    }
+  }
+  return observed;
+}
+
+/**
+ * Lists the slots that opened or closed since the previous observation.
+ * A date seen for the first time is only a baseline and yields no events.
+ *
+ * @param facilityId - Facility the slots belong to
+ * @param previous - Observed slots before this run
+ * @param current - Slots observed on this run
+ * @param at - Observation time in milliseconds
+ */
+export function diffObservedSlots(
+  facilityId: string,
+  previous: OpenSlotMap,
+  current: OpenSlotMap,
+  at: number
+): HistoryEvent[] {
+  const events: HistoryEvent[] = [];
+  for (const [date, times] of Object.entries(current)) {
+    const before = previous[date];
+    if (!before) {
+      continue;
+    }
+    for (const time of times.filter((t) => !before.includes(t))) {
+      events.push({ facilityId, date, time, change: "open", at });
+    }
+    for (const time of before.filter((t) => !times.includes(t))) {
+      events.push({ facilityId, date, time, change: "close", at });
+    }
+  }
+  return events;
+}
+
+/**
+ * Merges this run's observation into the stored one.
+ * Dates before today are dropped as they can no longer change.
+ *
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function mergeObservedSlots(
+  previous: OpenSlotMap,
+  current: OpenSlotMap,
+  today: string
+): OpenSlotMap {
+  return Object.fromEntries(
+    Object.entries({ ...previous, ...current }).filter(
+      ([date]) => date >= today
+    )
+  );
+}
+
+/**
+ * Pairs open and close events of the same slot into open intervals.
+ *
+ * @param events - History events in any order
+ * @returns Intervals in the order they opened
+ */
+export function getOpenIntervals(events: HistoryEvent[]): OpenInterval[] {
+  const intervals: OpenInterval[] = [];
+  const open = new Map<string, OpenInterval>();
+  const sorted = [...events].sort((a, b) => a.at - b.at);
+
+  for (const event of sorted) {
+    const key = `${event.facilityId} ${event.date} ${event.time}`;
+    if (event.change === "open") {
+      const interval: OpenInterval = {
+        facilityId: event.facilityId,
+        date: event.date,
+        time: event.time,
+        openedAt: event.at,
+      };
+      intervals.push(interval);
+      open.set(key, interval);
+    } else {
+      const interval = open.get(key);
+      if (interval) {
+        interval.closedAt = event.at;
+        open.delete(key);
+      }
+    }
+  }
+  return intervals;
+}
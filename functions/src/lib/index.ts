@@ -1,3 +1,17 @@
 export * from "./availability.js";
 export * from "./firestore.js";
 export * from "./line.js";
+export * from "./members.js";
+export * from "./schedule.js";
+export * from "./timeWindow.js";
+export * from "./watchState.js";
+export * from "./pageHealth.js";
+export * from "./flex.js";
+export * from "./postback.js";
+export * from "./history.js";
+export * from "./statistics.js";
+export * from "./dateRules.js";
+export * from "./dateParser.js";
+export * from "./jstDate.js";
+export * from "./quietHours.js";
+export * from "./afterFound.js";
@@ -0,0 +1,134 @@
+/**
+ * JST date utilities
+ *
+ * Cloud Functions run in UTC, while users and the reservation site think
+ * in Japan time. All calendar math goes through these helpers: dates are
+ * plain "YYYY-MM-DD" strings in JST, and timestamps are epoch milliseconds.
+ */
+
+/** JST offset from UTC in milliseconds (Japan has no daylight saving) */
+export const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Calendar fields of a moment in JST */
+export interface JSTDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0 = Sunday */
+  weekday: number;
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * Builds a YYYY-MM-DD string.
+ */
+export function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Splits a YYYY-MM-DD string into numbers.
+ */
+function splitDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("-").map((v) => parseInt(v, 10));
+  return [year, month, day];
+}
+
+/**
+ * Returns the calendar fields of a timestamp in JST.
+ */
+export function getJSTDateTime(timestamp: number): JSTDateTime {
+  const jst = new Date(timestamp + JST_OFFSET_MS);
+  return {
+    year: jst.getUTCFullYear(),
+    month: jst.getUTCMonth() + 1,
+    day: jst.getUTCDate(),
+    weekday: jst.getUTCDay(),
+    hours: jst.getUTCHours(),
+    minutes: jst.getUTCMinutes(),
+  };
+}
+
+/**
+ * Returns the JST date (YYYY-MM-DD) of a timestamp.
+ * @param timestamp - Defaults to now
+ */
+export function getTodayJST(timestamp = Date.now()): string {
+  const { year, month, day } = getJSTDateTime(timestamp);
+  return toDateString(year, month, day);
+}
+
+/**
+ * Converts a JST date and "H:MM" time to a timestamp.
+ * @returns Milliseconds or null if the time has no "H:MM" part
+ */
+export function toTimestampJST(date: string, time: string): number | null {
+  const match = time.match(/(\d{1,2}):(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = splitDate(date);
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return Date.UTC(year, month - 1, day, hours, minutes) - JST_OFFSET_MS;
+}
+
+/**
+ * Checks whether a year, month and day form a real calendar date
+ * (e.g., rejects 2/31 and 2/29 outside leap years).
+ */
+export function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) {
+    return false;
+  }
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day <= daysInMonth;
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = splitDate(date);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return toDateString(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth() + 1,
+    shifted.getUTCDate()
+  );
+}
+
+/** Weekday characters indexed by weekday (0 = Sunday) */
+export const WEEKDAY_CHARS = "日月火水木金土";
+
+/**
+ * Returns the weekday (0 = Sunday) of a YYYY-MM-DD date.
+ */
+export function weekdayOf(date: string): number {
+  const [year, month, day] = splitDate(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Formats a YYYY-MM-DD date as "M/D".
+ */
+export function formatMonthDay(date: string): string {
+  const [, month, day] = splitDate(date);
+  return `${month}/${day}`;
+}
+
+/**
+ * Formats a timestamp as a JST date and time.
+ * @returns Formatted string like "1/2 18:30"
+ */
+export function formatTimestampJST(timestamp: number): string {
+  const { month, day, hours, minutes } = getJSTDateTime(timestamp);
+  return (
+    `${month}/${day} ` +
+    `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+  );
+}
@@ -3,10 +3,95 @@
  */
 
 import * as crypto from "crypto";
-import type { LineTextMessage } from "../types/index.js";
+import type {
+  ChatTarget,
+  LineAction,
+  LineMessageInput,
+  LineSendMessage,
+  LineSource,
+} from "../types/index.js";
 
 const LINE_API_BASE = "https://api.line.me/v2/bot";
 
+/**
+ * Determines the chat an event came from.
+ * Group and room chats have their own subscription, separate from the
+ * sender's one-on-one chat.
+ *
+ * @returns The chat, or null if the source has no usable ID
+ */
+export function getChatTarget(source: LineSource | undefined): ChatTarget | null {
+  if (source?.type === "group" && source.groupId) {
+    return { id: source.groupId, type: "group" };
+  }
+  if (source?.type === "room" && source.roomId) {
+    return { id: source.roomId, type: "room" };
+  }
+  if (source?.type === "user" && source.userId) {
+    return { id: source.userId, type: "user" };
+  }
+  return null;
+}
+
+/**
+ * Error returned by the LINE Messaging API.
+ */
+export class LineApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(message);
+    this.name = "LineApiError";
+  }
+}
+
+/**
+ * Checks whether the API rejected the recipient itself (the userId is no
+ * longer valid), as opposed to a bad request or a temporary failure.
+ * 403 is not a rejected recipient: it means the channel is not allowed to
+ * use the API, which would fail the push to every subscriber.
+ */
+export function isRecipientRejected(err: unknown): boolean {
+  if (!(err instanceof LineApiError)) {
+    return false;
+  }
+  if (err.status === 404) {
+    return true;
+  }
+  // 400 for an invalid "to" property; other 400s are our own mistakes
+  return err.status === 400 && /"property"\s*:\s*"to"/.test(err.body);
+}
+
+/** Maximum number of quick-reply items */
+const MAX_QUICK_REPLY_ITEMS = 13;
+
+/**
+ * Normalizes message input to the API's messages array.
+ * Quick-reply items are attached to the last message, as LINE only
+ * shows the quick reply of the last message.
+ */
+function toMessages(
+  input: LineMessageInput,
+  quickReply: LineAction[] = []
+): LineSendMessage[] {
+  const messages: LineSendMessage[] =
+    typeof input === "string" ? [{ type: "text", text: input }] : [input].flat();
+  if (quickReply.length > 0 && messages.length > 0) {
+    const last = messages.length - 1;
+    messages[last] = {
+      ...messages[last],
+      quickReply: {
+        items: quickReply
+          .slice(0, MAX_QUICK_REPLY_ITEMS)
+          .map((action) => ({ type: "action", action })),
+      },
+    };
+  }
+  return messages;
+}
+
 /**
  * Verifies LINE webhook signature.
  *
@@ -32,14 +117,16 @@ export function verifySignature(
  *
  * @param accessToken - LINE Channel Access Token
  * @param replyToken - Reply token from webhook event
- * @param text - Message text to send
+ * @param message - Text or message objects to send
+ * @param quickReply - Optional quick-reply buttons offered with the reply
  */
 export async function replyMessage(
   accessToken: string,
   replyToken: string,
-  text: string
+  message: LineMessageInput,
+  quickReply?: LineAction[]
 ): Promise<void> {
-  const messages: LineTextMessage[] = [{ type: "text", text }];
+  const messages = toMessages(message, quickReply);
 
   const response = await fetch(`${LINE_API_BASE}/message/reply`, {
     method: "POST",
@@ -52,7 +139,11 @@ export async function replyMessage(
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`LINE reply failed: ${response.status} - ${errorText}`);
+    throw new LineApiError(
+      `LINE reply failed: ${response.status} - ${errorText}`,
+      response.status,
+      errorText
+    );
   }
 }
 
@@ -61,14 +152,14 @@ export async function replyMessage(
  *
  * @param accessToken - LINE Channel Access Token
  * @param userId - Target user ID
- * @param text - Message text to send
+ * @param message - Text or message objects to send
  */
 export async function pushMessage(
   accessToken: string,
   userId: string,
-  text: string
+  message: LineMessageInput
 ): Promise<void> {
-  const messages: LineTextMessage[] = [{ type: "text", text }];
+  const messages = toMessages(message);
 
   const response = await fetch(`${LINE_API_BASE}/message/push`, {
     method: "POST",
@@ -81,6 +172,10 @@ export async function pushMessage(
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`LINE push failed: ${response.status} - ${errorText}`);
+    throw new LineApiError(
+      `LINE push failed: ${response.status} - ${errorText}`,
+      response.status,
+      errorText
+    );
   }
 }
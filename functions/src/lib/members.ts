@@ -0,0 +1,49 @@
+/**
+ * Members of group and room subscriptions
+ *
+ * Settings of a registered group or room may only be changed by its
+ * members: the one who registered it ("登録") and those an existing
+ * member approved after they asked to join ("参加"). Having a
+ * subscription of one's own is not enough, since following the bot
+ * registers every user.
+ */
+
+import type { ChatTarget, SubscriberDoc } from "../types/index.js";
+
+/**
+ * Lists the members who may change a group's or room's settings.
+ */
+export function getChatMembers(chat: SubscriberDoc): string[] {
+  return [
+    ...(chat.registeredBy ? [chat.registeredBy] : []),
+    ...(chat.members ?? []).filter((id) => id !== chat.registeredBy),
+  ];
+}
+
+/**
+ * Checks whether a sender may change a chat's settings.
+ * One-on-one chats are always allowed. A registered group or room only
+ * allows its members; one that is not registered (yet, or any more) may
+ * be registered by anyone who registered with the bot in their own chat.
+ *
+ * @param chat - Subscription of the chat (null if never registered)
+ * @param senderId - userId of the sender (absent if LINE did not provide it)
+ * @param sender - Subscription of the sender's own chat
+ */
+export function canChangeChatSettings(
+  target: ChatTarget,
+  chat: SubscriberDoc | null,
+  senderId: string | undefined,
+  sender: SubscriberDoc | null
+): boolean {
+  if (target.type === "user") {
+    return true;
+  }
+  if (!senderId) {
+    return false;
+  }
+  if (chat?.active) {
+    return getChatMembers(chat).includes(senderId);
+  }
+  return !!sender?.active;
+}
@@ -0,0 +1,86 @@
+/**
+ * Page health tracking
+ *
+ * Counts consecutive reservation pages whose layout was not recognized,
+ * so the owner can be alerted when SelectType changes its markup and
+ * told again once parsing works. HTTP errors are counted per facility
+ * too, and its pages are not fetched for a while after them, however
+ * many subscribers are due.
+ */
+
+import type { PageHealthDoc } from "../types/index.js";
+import { getBackoffUntil, SCHEDULE_GRACE_MS } from "./schedule.js";
+
+/** Alert to send after a layout health update */
+export type LayoutAlert = "broken" | "recovered" | null;
+
+/**
+ * Computes the next layout health of a facility.
+ *
+ * @param previous - Health before this run (null if never tracked)
+ * @param recognized - Whether this run's pages were recognized
+ * @param threshold - Unrecognized pages in a row before alerting
+ * @returns The new health and the alert to send, if any
+ */
+export function nextLayoutHealth(
+  previous: PageHealthDoc | null,
+  recognized: boolean,
+  threshold: number
+): { health: Omit<PageHealthDoc, "updatedAt">; alert: LayoutAlert } {
+  const alerted = previous?.alerted ?? false;
+
+  if (recognized) {
+    return {
+      health: { unrecognizedStreak: 0, alerted: false },
+      alert: alerted ? "recovered" : null,
+    };
+  }
+
+  const unrecognizedStreak = (previous?.unrecognizedStreak ?? 0) + 1;
+  const shouldAlert = !alerted && unrecognizedStreak >= threshold;
+  return {
+    health: { unrecognizedStreak, alerted: alerted || shouldAlert },
+    alert: shouldAlert ? "broken" : null,
+  };
+}
+
+/** HTTP error backoff fields of the page health */
+export type FetchBackoff = Required<
+  Pick<PageHealthDoc, "httpFailures" | "backoffUntil">
+>;
+
+/**
+ * Advances a facility's HTTP error streak after fetching its pages.
+ *
+ * @param previous - Health before this run (null if never tracked)
+ * @param httpStatus - Status of this run's HTTP error, if any
+ * @param now - Current time in milliseconds
+ * @returns The new streak and backoff, or null if the fetch got no HTTP
+ *   error (the streak ends)
+ */
+export function nextFetchBackoff(
+  previous: PageHealthDoc | null,
+  httpStatus: number | undefined,
+  now: number = Date.now()
+): FetchBackoff | null {
+  if (!httpStatus) {
+    return null;
+  }
+  const httpFailures = (previous?.httpFailures ?? 0) + 1;
+  return { httpFailures, backoffUntil: getBackoffUntil(httpFailures, now) };
+}
+
+/**
+ * Checks whether a facility's pages are held back after HTTP errors.
+ *
+ * @param now - Current time in milliseconds
+ */
+export function isFetchBackedOff(
+  health: PageHealthDoc | null,
+  now: number = Date.now()
+): boolean {
+  return (
+    health?.backoffUntil !== undefined &&
+    now < health.backoffUntil - SCHEDULE_GRACE_MS
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Postback data encoding
+ *
+ * Buttons and pickers send structured postback data instead of command
+ * text, in URL query format (e.g., "action=removeDate&date=2025-01-15").
+ * The webhook maps each command to the same operation as the typed one.
+ */
+
+import type { LinePostbackParams } from "../types/index.js";
+
+/** Operations that can be triggered by a postback */
+export type PostbackCommand =
+  | {
+      action: "addDate";
+      /** Omitted for the date picker, which sends the date in params */
+      date?: string;
+    }
+  | { action: "removeDate"; date: string; facilityId?: string }
+  | {
+      action: "booked";
+      /** Omitted when all dates of the facility are watched */
+      date?: string;
+      facilityId?: string;
+    }
+  | { action: "enable" }
+  | { action: "disable" }
+  | {
+      action: "approveMember";
+      /** userId of the group member who asked to join */
+      userId: string;
+    }
+  | {
+      action: "snooze";
+      /** Omitted when all dates of the facility are watched */
+      date?: string;
+      facilityId?: string;
+      minutes: number;
+    };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Encodes a command as postback data (max 300 characters).
+ */
+export function encodePostback(command: PostbackCommand): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(command)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  return params.toString();
+}
+
+/**
+ * Decodes postback data into a command.
+ *
+ * @param data - Postback data from the event
+ * @param params - Values picked with a datetimepicker
+ * @returns The command, or null if the data is unknown or invalid
+ */
+export function parsePostback(
+  data: string,
+  params?: LinePostbackParams
+): PostbackCommand | null {
+  const query = new URLSearchParams(data);
+  const date = params?.date ?? query.get("date") ?? undefined;
+  if (date !== undefined && !DATE_PATTERN.test(date)) {
+    return null;
+  }
+  const facilityId = query.get("facilityId") ?? undefined;
+
+  switch (query.get("action")) {
+    case "addDate":
+      return date ? { action: "addDate", date } : null;
+    case "removeDate":
+      return date
+        ? { action: "removeDate", date, ...(facilityId ? { facilityId } : {}) }
+        : null;
+    case "booked":
+      return {
+        action: "booked",
+        ...(date ? { date } : {}),
+        ...(facilityId ? { facilityId } : {}),
+      };
+    case "enable":
+      return { action: "enable" };
+    case "disable":
+      return { action: "disable" };
+    case "approveMember": {
+      const userId = query.get("userId");
+      return userId ? { action: "approveMember", userId } : null;
+    }
+    case "snooze": {
+      const minutes = Number(query.get("minutes"));
+      if (!Number.isInteger(minutes) || minutes <= 0) {
+        return null;
+      }
+      return {
+        action: "snooze",
+        minutes,
+        ...(date ? { date } : {}),
+        ...(facilityId ? { facilityId } : {}),
+      };
+    }
+    default:
+      return null;
+  }
+}
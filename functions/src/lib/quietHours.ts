@@ -0,0 +1,91 @@
+/**
+ * Quiet hours
+ *
+ * Openings found inside a subscriber's quiet hours ("おやすみ 23:00-7:00")
+ * are held in the watch state instead of being pushed, and sent as one
+ * digest at the first check after the quiet hours end. Notified slots
+ * that close during quiet hours are held the same way and reported
+ * ("埋まりました") afterwards.
+ */
+
+import type {
+  HeldOpening,
+  OpenSlotMap,
+  SlotRef,
+  TimeWindow,
+} from "../types/index.js";
+import { getJSTDateTime } from "./jstDate.js";
+import { isTimeInWindow } from "./timeWindow.js";
+import { isSameSlot, slotRefKey } from "./watchState.js";
+
+/**
+ * Checks whether a time falls inside quiet hours.
+ *
+ * @param quietHours - Window in JST (may wrap past midnight)
+ * @param now - Time in milliseconds
+ */
+export function isInQuietHours(quietHours: TimeWindow, now: number): boolean {
+  const { hours, minutes } = getJSTDateTime(now);
+  return isTimeInWindow(
+    `${hours}:${String(minutes).padStart(2, "0")}`,
+    quietHours
+  );
+}
+
+/**
+ * Adds openings to the held ones. A slot already held keeps the time it
+ * was first found.
+ */
+export function holdOpenings(
+  held: HeldOpening[] | undefined,
+  openings: HeldOpening[]
+): HeldOpening[] {
+  const result = [...(held ?? [])];
+  for (const opening of openings) {
+    if (!result.some((h) => isSameSlot(h, opening))) {
+      result.push(opening);
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks whether a held opening is still open.
+ *
+ * @param currentOpen - Open slots per target key from this check
+ */
+export function isHeldOpeningOpen(
+  opening: HeldOpening,
+  currentOpen: OpenSlotMap
+): boolean {
+  return (currentOpen[slotRefKey(opening)] ?? []).includes(opening.slotId);
+}
+
+/**
+ * Adds closed slots to the held closings.
+ * Held slots that opened again, or whose target key was not checked
+ * (e.g., a removed date), are dropped.
+ *
+ * @param closed - Notified slots that closed in this check
+ * @param currentOpen - Open slots per target key from this check
+ */
+export function holdClosings(
+  held: SlotRef[] | undefined,
+  closed: SlotRef[],
+  currentOpen: OpenSlotMap
+): SlotRef[] {
+  const result = (held ?? []).filter((ref) => {
+    const ids = currentOpen[slotRefKey(ref)];
+    return ids !== undefined && !ids.includes(ref.slotId);
+  });
+  for (const ref of closed) {
+    if (!result.some((h) => isSameSlot(h, ref))) {
+      result.push({
+        facilityId: ref.facilityId,
+        ...(ref.date ? { date: ref.date } : {}),
+        slotId: ref.slotId,
+      });
+    }
+  }
+  return result;
+}
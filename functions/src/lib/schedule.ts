@@ -0,0 +1,136 @@
+/**
+ * Scheduling helpers for the watch scheduler
+ *
+ * The scheduler runs every minute; each subscriber's check is gated by
+ * its own intervalMinutes so the setting controls check frequency.
+ * Monitoring paused for a while ("停止 2時間") resumes on the first run
+ * at or after its resume time.
+ */
+
+import type { WatchConfigDoc, WatchStateDoc } from "../types/index.js";
+import { addDays, getTodayJST, toTimestampJST } from "./jstDate.js";
+
+/** Interval used when the config has no intervalMinutes */
+export const DEFAULT_INTERVAL_MINUTES = 2;
+
+/**
+ * Slack subtracted from the interval.
+ * Scheduler invocations drift by a few seconds, so a check stamped at
+ * 12:00:05 must still be due at the 12:02:02 run for a 2-minute interval.
+ */
+export const SCHEDULE_GRACE_MS = 30 * 1000;
+
+/** Upper bound of the backoff delay after repeated HTTP errors */
+export const MAX_BACKOFF_MINUTES = 60;
+
+/** Longest pause accepted by "停止 N時間" */
+export const MAX_PAUSE_HOURS = 24;
+
+/**
+ * Returns the effective check interval in minutes.
+ */
+export function getIntervalMinutes(config: WatchConfigDoc | null): number {
+  return config?.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES;
+}
+
+/**
+ * Determines whether a subscriber should be checked on this run.
+ *
+ * @param config - Subscriber's watch config
+ * @param state - Subscriber's last watch state (null if never checked)
+ * @param now - Current time in milliseconds
+ * @returns true if the configured interval has passed since the last check
+ */
+export function isCheckDue(
+  config: WatchConfigDoc,
+  state: WatchStateDoc | null,
+  now: number = Date.now()
+): boolean {
+  if (!state?.checkedAt) {
+    return true;
+  }
+  const intervalMs = getIntervalMinutes(config) * 60 * 1000;
+  return now - state.checkedAt >= intervalMs - SCHEDULE_GRACE_MS;
+}
+
+/**
+ * Computes until when a facility's pages are not fetched after
+ * consecutive HTTP errors. The delay doubles with every failure (1×, 2×,
+ * 4×, … DEFAULT_INTERVAL_MINUTES) and is capped at MAX_BACKOFF_MINUTES.
+ *
+ * @param consecutiveFailures - Failures in a row, including this one
+ * @param now - Current time in milliseconds
+ * @returns The time in milliseconds before which no fetch runs
+ */
+export function getBackoffUntil(
+  consecutiveFailures: number,
+  now: number = Date.now()
+): number {
+  const exponent = Math.max(consecutiveFailures - 1, 0);
+  const delayMinutes = Math.min(
+    DEFAULT_INTERVAL_MINUTES * 2 ** exponent,
+    MAX_BACKOFF_MINUTES
+  );
+  return now + delayMinutes * 60 * 1000;
+}
+
+/**
+ * Parses how long to pause monitoring: a duration ("2時間", "30分",
+ * "1時間30分") or a time of day in JST ("21:00まで", "21時まで").
+ * A time that has already passed today means tomorrow.
+ *
+ * @param now - Current time in milliseconds
+ * @returns The resume time in milliseconds, or null if the input is not a
+ *   pause length or exceeds MAX_PAUSE_HOURS
+ */
+export function parseResumeTime(
+  input: string,
+  now: number = Date.now()
+): number | null {
+  const text = input.normalize("NFKC").replace(/\s+/g, "");
+
+  const duration = text.match(/^(?:(\d+)時間)?(?:(\d+)分)?$/);
+  if (duration && (duration[1] || duration[2])) {
+    const minutes =
+      parseInt(duration[1] ?? "0", 10) * 60 + parseInt(duration[2] ?? "0", 10);
+    if (minutes < 1 || minutes > MAX_PAUSE_HOURS * 60) {
+      return null;
+    }
+    return now + minutes * 60 * 1000;
+  }
+
+  const until = text.match(/^(\d{1,2})(?::(\d{2})|時(?:(\d{1,2})分)?)まで$/);
+  if (until) {
+    const hours = parseInt(until[1], 10);
+    const minutes = parseInt(until[2] ?? until[3] ?? "0", 10);
+    if (hours > 23 || minutes > 59) {
+      return null;
+    }
+    const time = `${hours}:${String(minutes).padStart(2, "0")}`;
+    const today = getTodayJST(now);
+    const resumeAt = toTimestampJST(today, time);
+    if (resumeAt === null) {
+      return null;
+    }
+    return resumeAt > now ? resumeAt : toTimestampJST(addDays(today, 1), time);
+  }
+
+  return null;
+}
+
+/**
+ * Determines whether paused monitoring should resume on this run.
+ *
+ * @param config - Subscriber's watch config
+ * @param now - Current time in milliseconds
+ */
+export function isResumeDue(
+  config: WatchConfigDoc,
+  now: number = Date.now()
+): boolean {
+  return (
+    !config.enabled &&
+    config.resumeAt !== undefined &&
+    now >= config.resumeAt - SCHEDULE_GRACE_MS
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Opening-pattern statistics
+ *
+ * Aggregates recorded history events to show when openings (usually
+ * cancellations) tend to appear: by weekday and hour of day in JST, and
+ * by how long before the slot they appear. Closed intervals give how
+ * long an opening typically stays bookable.
+ */
+
+import type { HistoryEvent } from "../types/index.js";
+import { getOpenIntervals } from "./history.js";
+import { getJSTDateTime, toTimestampJST } from "./jstDate.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Lead time buckets: openings appearing less than `maxHours` before the slot */
+export const LEAD_TIME_BUCKETS: { label: string; maxHours: number }[] = [
+  { label: "当日", maxHours: 24 },
+  { label: "1〜3日前", maxHours: 72 },
+  { label: "3〜7日前", maxHours: 168 },
+  { label: "7日以上前", maxHours: Infinity },
+];
+
+/** Aggregated opening patterns */
+export interface OpeningStatistics {
+  /** Number of openings */
+  openings: number;
+  /** Openings per weekday (0 = Sunday) and hour (0-23) in JST */
+  byWeekdayHour: number[][];
+  /** Openings per weekday (0 = Sunday) */
+  byWeekday: number[];
+  /** Openings per hour of day */
+  byHour: number[];
+  /** Openings per lead time bucket (same order as LEAD_TIME_BUCKETS) */
+  byLeadTime: number[];
+  /** Median minutes an opening stayed open (null without closed intervals) */
+  medianOpenMinutes: number | null;
+}
+
+/** The weekday and hours with the most openings */
+export interface PeakWindow {
+  weekday: number;
+  /** First hour of the window (0-23) */
+  startHour: number;
+  /** Hour the window ends (exclusive, may exceed 23 across midnight) */
+  endHour: number;
+  openings: number;
+}
+
+/**
+ * Returns the median of a non-empty list.
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Aggregates history events into opening statistics.
+ *
+ * @param events - History events in any order
+ */
+export function aggregateOpenings(events: HistoryEvent[]): OpeningStatistics {
+  const byWeekdayHour = Array.from({ length: 7 }, () =>
+    new Array<number>(24).fill(0)
+  );
+  const byLeadTime = new Array<number>(LEAD_TIME_BUCKETS.length).fill(0);
+  const durations: number[] = [];
+
+  const intervals = getOpenIntervals(events);
+  for (const interval of intervals) {
+    const { weekday, hours } = getJSTDateTime(interval.openedAt);
+    byWeekdayHour[weekday][hours]++;
+
+    const slotStart = toTimestampJST(interval.date, interval.time);
+    if (slotStart !== null) {
+      // Openings noticed after the slot started count as same-day
+      const leadHours = Math.max(0, slotStart - interval.openedAt) / HOUR_MS;
+      const bucket = LEAD_TIME_BUCKETS.findIndex((b) => leadHours < b.maxHours);
+      byLeadTime[bucket]++;
+    }
+
+    if (interval.closedAt !== undefined) {
+      durations.push((interval.closedAt - interval.openedAt) / 60000);
+    }
+  }
+
+  return {
+    openings: intervals.length,
+    byWeekdayHour,
+    byWeekday: byWeekdayHour.map((hours) => hours.reduce((a, b) => a + b, 0)),
+    byHour: Array.from({ length: 24 }, (_, hour) =>
+      byWeekdayHour.reduce((sum, hours) => sum + hours[hour], 0)
+    ),
+    byLeadTime,
+    medianOpenMinutes: durations.length > 0 ? median(durations) : null,
+  };
+}
+
+/**
+ * Finds the weekday and consecutive hours with the most openings.
+ * Windows may run past midnight into the next weekday. Ties go to the
+ * earliest window from Sunday 0:00.
+ *
+ * @param hours - Window length in hours
+ * @returns The window or null if there are no openings
+ */
+export function findPeakWindow(
+  stats: OpeningStatistics,
+  hours = 2
+): PeakWindow | null {
+  let peak: PeakWindow | null = null;
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let startHour = 0; startHour < 24; startHour++) {
+      let openings = 0;
+      for (let offset = 0; offset < hours; offset++) {
+        const hourOfWeek = weekday * 24 + startHour + offset;
+        const day = Math.floor(hourOfWeek / 24) % 7;
+        openings += stats.byWeekdayHour[day][hourOfWeek % 24];
+      }
+      if (openings > 0 && (!peak || openings > peak.openings)) {
+        peak = { weekday, startHour, endHour: startHour + hours, openings };
+      }
+    }
+  }
+  return peak;
+}
@@ -0,0 +1,99 @@
+/**
+ * Time-of-day windows for filtering monitored slots
+ *
+ * A window "18:00-21:00" matches slots whose start time is at or after
+ * 18:00 and before 21:00. A window whose end is earlier than its start
+ * (e.g., "22:00-2:00") wraps past midnight.
+ */
+
+import type { OpenSlot, TimeWindow } from "../types/index.js";
+
+/**
+ * Converts "H:MM" / "HH:MM" to minutes since midnight.
+ * @returns Minutes or null if the input has no valid time
+ */
+function toMinutes(time: string): number | null {
+  const match = time.match(/(\d{1,2}):(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Normalizes a time to "HH:MM".
+ */
+function normalizeTime(hours: string, minutes: string | undefined): string {
+  return `${hours.padStart(2, "0")}:${minutes ?? "00"}`;
+}
+
+/**
+ * Parses a time window such as "18:00-21:00", "18-21" or "18:00〜21:00".
+ *
+ * @returns The window or null if the input is not a valid window
+ */
+export function parseTimeWindow(input: string): TimeWindow | null {
+  const match = input
+    .trim()
+    .match(/^(\d{1,2})(?::(\d{2}))?\s*[-~〜～]\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const window: TimeWindow = {
+    start: normalizeTime(match[1], match[2]),
+    end: normalizeTime(match[3], match[4]),
+  };
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start === null || end === null || start === end || start === 24 * 60) {
+    return null;
+  }
+  return window;
+}
+
+/**
+ * Checks whether a slot time label falls inside a window.
+ * Labels without a recognizable time are kept so nothing is silently dropped.
+ *
+ * @param time - Slot time label (e.g., "18:00" or "18:00～19:00")
+ * @param window - Window to match against
+ */
+export function isTimeInWindow(time: string, window: TimeWindow): boolean {
+  const minutes = toMinutes(time);
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (minutes === null || start === null || end === null) {
+    return true;
+  }
+  if (start < end) {
+    return minutes >= start && minutes < end;
+  }
+  // Wraps past midnight
+  return minutes >= start || minutes < end;
+}
+
+/**
+ * Drops open slots outside the window (no-op without a window).
+ */
+export function filterSlotsByWindow(
+  slots: OpenSlot[],
+  window: TimeWindow | undefined
+): OpenSlot[] {
+  if (!window) {
+    return slots;
+  }
+  return slots.filter((slot) => isTimeInWindow(slot.time, window));
+}
+
+/**
+ * Formats a window for display (e.g., "18:00-21:00").
+ */
+export function formatTimeWindow(window: TimeWindow): string {
+  return `${window.start}-${window.end}`;
+}
@@ -0,0 +1,189 @@
+/**
+ * Per-date and per-slot availability state transitions
+ *
+ * The watch state keeps the open slot IDs of every target key, so each
+ * date or slot that goes from closed to open is notified on its own, and
+ * adding or removing one date does not affect the others. Slots the
+ * subscriber was told about are tracked so they can be notified again
+ * while they stay open, and reported when they close.
+ */
+
+import type {
+  NotifiedSlot,
+  OpenSlot,
+  OpenSlotMap,
+  RenotifyPolicy,
+  SlotRef,
+  WatchStateDoc,
+} from "../types/index.js";
+import { allDatesKey, targetKey } from "./firestore.js";
+import { SCHEDULE_GRACE_MS } from "./schedule.js";
+
+/** Slot ID used when a page has no calendar grid (only "open" is known) */
+export const WHOLE_DAY_SLOT = "*";
+
+/**
+ * Builds the ID of an open slot (e.g., "1/15 18:00").
+ * The marker is not part of the ID, so ● changing to ▲ is not a new opening.
+ */
+export function slotId(slot: OpenSlot): string {
+  return `${slot.label} ${slot.time}`;
+}
+
+/**
+ * Returns the target key a slot belongs to.
+ */
+export function slotRefKey(ref: SlotRef): string {
+  return ref.date
+    ? targetKey({ date: ref.date, facilityId: ref.facilityId })
+    : allDatesKey(ref.facilityId);
+}
+
+/**
+ * Checks whether two references point to the same slot.
+ */
+export function isSameSlot(a: SlotRef, b: SlotRef): boolean {
+  return slotRefKey(a) === slotRefKey(b) && a.slotId === b.slotId;
+}
+
+/**
+ * Finds the slots that are open now but were not open before.
+ *
+ * @param previous - Open slots per target key from the last check
+ * @param current - Open slots per target key from this check
+ * @returns Newly opened slot IDs per target key (keys without openings are omitted)
+ */
+export function findNewlyOpened(
+  previous: OpenSlotMap | undefined,
+  current: OpenSlotMap
+): OpenSlotMap {
+  const opened: OpenSlotMap = {};
+  for (const [key, ids] of Object.entries(current)) {
+    const before = new Set(previous?.[key] ?? []);
+    const newIds = ids.filter((id) => !before.has(id));
+    if (newIds.length > 0) {
+      opened[key] = newIds;
+    }
+  }
+  return opened;
+}
+
+/**
+ * Checks whether any target key has an open slot.
+ */
+export function hasOpenSlots(openSlots: OpenSlotMap): boolean {
+  return Object.values(openSlots).some((ids) => ids.length > 0);
+}
+
+/** Failure streak fields of the watch state */
+export type FailureStreak = Pick<
+  WatchStateDoc,
+  "consecutiveFailures" | "lastError" | "failingSince"
+>;
+
+/**
+ * Advances the failure streak after a check.
+ * A successful check clears the streak (all fields are omitted).
+ *
+ * @param previous - Watch state of the last check (null if never checked)
+ * @param error - Error of this check, or undefined if it succeeded
+ * @param now - Current time in milliseconds
+ */
+export function nextFailureStreak(
+  previous: WatchStateDoc | null,
+  error: string | undefined,
+  now: number = Date.now()
+): FailureStreak {
+  if (!error) {
+    return {};
+  }
+  return {
+    consecutiveFailures: (previous?.consecutiveFailures ?? 0) + 1,
+    lastError: error,
+    failingSince: previous?.failingSince ?? now,
+  };
+}
+
+/** Notified slots sorted by what happened to them in a check */
+export interface NotifiedSlotReview {
+  /** Slots that are still open */
+  open: NotifiedSlot[];
+  /** Open slots due for a reminder under the policy */
+  due: NotifiedSlot[];
+  /** Slots that closed since they were notified */
+  closed: NotifiedSlot[];
+}
+
+/**
+ * Reviews the notified slots against this check.
+ * Slots of target keys that were not checked (e.g., removed dates) are
+ * dropped, so only slots seen closing count as closed.
+ *
+ * @param notified - Notified slots from the last check
+ * @param currentOpen - Open slots per target key from this check
+ * @param policy - Re-notification policy (no reminders when omitted)
+ * @param now - Current time in milliseconds
+ */
+export function reviewNotifiedSlots(
+  notified: NotifiedSlot[] | undefined,
+  currentOpen: OpenSlotMap,
+  policy: RenotifyPolicy | undefined,
+  now: number = Date.now()
+): NotifiedSlotReview {
+  const review: NotifiedSlotReview = { open: [], due: [], closed: [] };
+  for (const slot of notified ?? []) {
+    const ids = currentOpen[slotRefKey(slot)];
+    if (!ids) {
+      continue;
+    }
+    if (!ids.includes(slot.slotId)) {
+      review.closed.push(slot);
+      continue;
+    }
+    review.open.push(slot);
+    if (
+      policy &&
+      slot.reminders < policy.maxCount &&
+      now - slot.notifiedAt >=
+        policy.intervalMinutes * 60 * 1000 - SCHEDULE_GRACE_MS
+    ) {
+      review.due.push(slot);
+    }
+  }
+  return review;
+}
+
+/**
+ * Records the slots notified in this check.
+ * Slots notified as openings start over without reminders, and reminded
+ * slots count one more reminder.
+ *
+ * @param open - Notified slots that are still open
+ * @param opened - Slots notified as openings in this check
+ * @param reminded - Slots notified again in this check
+ * @param now - Current time in milliseconds
+ */
+export function markNotified(
+  open: NotifiedSlot[],
+  opened: SlotRef[],
+  reminded: SlotRef[],
+  now: number = Date.now()
+): NotifiedSlot[] {
+  const result = open
+    .filter((slot) => !opened.some((ref) => isSameSlot(ref, slot)))
+    .map((slot) =>
+      reminded.some((ref) => isSameSlot(ref, slot))
+        ? { ...slot, notifiedAt: now, reminders: slot.reminders + 1 }
+        : slot
+    );
+  for (const ref of opened) {
+    result.push({
+      facilityId: ref.facilityId,
+      ...(ref.date ? { date: ref.date } : {}),
+      slotId: ref.slotId,
+      notifiedAt: now,
+      reminders: 0,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,80 @@
+/**
+ * Availability grid types parsed from SelectType calendar pages
+ */
+
+/** Marker shown in a calendar cell ("" when the cell is empty) */
+export type SlotMarker = "●" | "▲" | "×" | "";
+
+/** A single cell of the calendar grid */
+export interface AvailabilitySlot {
+  /** Time label from the row's cl-time cell (e.g., "18:00") */
+  time: string;
+  marker: SlotMarker;
+}
+
+/** A date column of the calendar grid */
+export interface AvailabilityColumn {
+  /** Header label in "M/D" format (e.g., "1/15") */
+  label: string;
+  month: number;
+  day: number;
+  /** Full date in YYYY-MM-DD format (only when the page shows a year) */
+  date?: string;
+  /** One slot per time row, in row order */
+  slots: AvailabilitySlot[];
+}
+
+/** Full calendar grid of a SelectType week page */
+export interface AvailabilityGrid {
+  /** Time labels of all rows, in row order */
+  times: string[];
+  columns: AvailabilityColumn[];
+  /** href of the link to the following week, if the page has one */
+  nextWeekHref?: string;
+}
+
+/**
+ * Result of parsing a reservation page.
+ * "unrecognized" means the page did not look like a SelectType week
+ * calendar (e.g., the markup changed), as opposed to a calendar with
+ * nothing open.
+ */
+export type ParsedCalendarPage =
+  | { layout: "ok"; grid: AvailabilityGrid }
+  | { layout: "unrecognized"; grid: AvailabilityGrid | null };
+
+/** A slot that can be booked (● or ▲) */
+export interface OpenSlot {
+  /** Column label in "M/D" format */
+  label: string;
+  time: string;
+  marker: "●" | "▲";
+}
+
+/** Result of checking a facility's reservation pages */
+export interface AvailabilityCheckResult {
+  hasAvailability: boolean;
+  /** Grid of the week page that contains the target date */
+  grid?: AvailabilityGrid;
+  /** Open slots (limited to the target date when one is given) */
+  openSlots: OpenSlot[];
+  /** The target date lies beyond the last week the site offers */
+  notBookable?: boolean;
+  /** The page layout was not recognized; availability came from marker matching */
+  unrecognizedLayout?: boolean;
+  error?: string;
+  /** Status code when the error was a non-2xx response */
+  httpStatus?: number;
+}
+
+/** Result of checking several dates of one facility in a single page walk */
+export interface FacilityCheckResult {
+  /** Result over every date shown on the first week page */
+  allDates: AvailabilityCheckResult;
+  /** Result per requested target date (YYYY-MM-DD) */
+  byDate: Map<string, AvailabilityCheckResult>;
+  /** Number of week pages fetched */
+  pagesFetched: number;
+  /** false if a fetched page did not look like a SelectType calendar */
+  layoutRecognized: boolean;
+}
@@ -2,25 +2,217 @@
  * Firestore document types
  */
 
-/** line/target document */
-export interface LineTargetDoc {
+/** Kind of chat a subscription belongs to */
+export type SubscriberType = "user" | "group" | "room";
+
+/** subscribers/{userId} document */
+export interface SubscriberDoc {
+  /** Push destination: the user, group or room ID (also the document ID) */
   userId: string;
+  /** Kind of chat (omitted for users registered before groups were supported) */
+  type?: SubscriberType;
+  /** Whether the chat receives notifications */
+  active: boolean;
+  /** Member who registered a group or room */
+  registeredBy?: string;
+  /** Other members approved to change a group's or room's settings */
+  members?: string[];
+  updatedAt: number;
+}
+
+/**
+ * line/target document of the single-user version (before settings were
+ * stored per subscriber)
+ */
+export interface LegacyLineTargetDoc {
+  userId: string;
+  /** Set once the settings have been moved to subscribers/{userId} */
+  migratedAt?: number;
+  updatedAt: number;
+}
+
+/**
+ * watch/config document of the single-user version.
+ * The oldest documents stored target dates as plain YYYY-MM-DD strings.
+ */
+export interface LegacyWatchConfigDoc
+  extends Omit<WatchConfigDoc, "targetDates"> {
+  targetDates?: (TargetDate | string)[];
+}
+
+/** facilities/{name} document */
+export interface FacilityDoc {
+  /** Short name used in commands (also the document ID) */
+  name: string;
+  /** SelectType reservation page ID (the `id` query parameter) */
+  selectTypeId: string;
+  /** Display label used in messages */
+  label: string;
   updatedAt: number;
 }
 
-/** watch/config document */
+/** Time-of-day window for slots (start inclusive, end exclusive) */
+export interface TimeWindow {
+  start: string; // HH:MM format
+  end: string; // HH:MM format
+}
+
+/**
+ * What happens to a date after its first availability alert:
+ * keep watching it, remove it, or pause monitoring.
+ */
+export type AfterFoundMode = "keep" | "remove" | "pause";
+
+/** A monitored date tied to a facility */
+export interface TargetDate {
+  date: string; // YYYY-MM-DD format
+  facilityId: string; // FacilityDoc name
+  /** Overrides the config-wide time window for this date */
+  timeWindow?: TimeWindow;
+  /** Overrides the config-wide mode after an alert for this date */
+  afterFound?: AfterFoundMode;
+}
+
+/**
+ * A recurring date rule (e.g., "毎週土曜", "土日 2月").
+ * Expanded into target dates within the bookable horizon on each check.
+ */
+export interface DateRule {
+  /** Weekdays to watch (0 = Sunday), ascending */
+  weekdays: number[];
+  /** Limits the rule to one month (1-12); every month when omitted */
+  month?: number;
+  facilityId: string; // FacilityDoc name
+}
+
+/** subscribers/{userId}/watch/config document */
 export interface WatchConfigDoc {
   enabled: boolean;
+  /** Monitoring is paused and turns back on at this time ("停止 2時間") */
+  resumeAt?: number;
   intervalMinutes?: number;
-  targetDates?: string[]; // Array of YYYY-MM-DD format (e.g., ["2025-01-15", "2025-01-16"])
+  /** Facility that new dates are added to (defaults to the built-in facility) */
+  facilityId?: string;
+  targetDates?: TargetDate[];
+  /** Recurring rules watched in addition to targetDates */
+  dateRules?: DateRule[];
+  /** Only slots inside this window are reported (all slots when unset) */
+  timeWindow?: TimeWindow;
+  /**
+   * Re-notification times per target key ("30分後に再通知").
+   * Slots still open at that time are notified again.
+   */
+  reminders?: Record<string, number>;
+  /**
+   * Openings found inside this window (JST) are not pushed right away but
+   * sent together once the window ends ("おやすみ 23:00-7:00")
+   */
+  quietHours?: TimeWindow;
+  /** Reminders while a notified slot stays open ("再通知 15分") */
+  renotify?: RenotifyPolicy;
+  /** Whether to send "埋まりました" when a notified slot closes */
+  notifyClosed?: boolean;
+  /** What happens to a date after its first alert (keeps it when unset) */
+  afterFound?: AfterFoundMode;
   updatedAt: number;
 }
 
-/** watch/state document */
+/** How often and how many times a slot that stays open is notified again */
+export interface RenotifyPolicy {
+  intervalMinutes: number;
+  /** Reminders per opening, after the first notification */
+  maxCount: number;
+}
+
+/** Open slot IDs (e.g., "1/15 18:00") per target key */
+export type OpenSlotMap = Record<string, string[]>;
+
+/** A slot of a target date (or of all dates) of a facility */
+export interface SlotRef {
+  facilityId: string;
+  /** Target date (omitted when all dates are watched) */
+  date?: string;
+  /** Slot ID (e.g., "1/15 18:00") */
+  slotId: string;
+}
+
+/** An opening held back during quiet hours for the digest */
+export interface HeldOpening extends SlotRef {
+  /** When the opening was found */
+  openedAt: number;
+}
+
+/** A slot the subscriber was told is open */
+export interface NotifiedSlot extends SlotRef {
+  /** When the slot was last notified */
+  notifiedAt: number;
+  /** Reminders sent since the slot opened */
+  reminders: number;
+}
+
+/** subscribers/{userId}/watch/state document */
 export interface WatchStateDoc {
+  /** Whether any target had an open slot at the last check */
   has: boolean;
   checkedAt: number;
   lastNotifiedAt?: number;
-  /** The targetDate(s) that was checked when has was set */
-  checkedTargetDates?: string[];
+  /**
+   * Open slots per target key ("facilityId:YYYY-MM-DD", or "facilityId:*"
+   * when all dates are watched)
+   */
+  openSlots?: OpenSlotMap;
+  /** Target keys beyond the last week the reservation site offers */
+  notBookableTargets?: string[];
+  /** Number of consecutive checks that failed (omitted after a success) */
+  consecutiveFailures?: number;
+  /** Error message of the latest failed check */
+  lastError?: string;
+  /** When the current failure streak started */
+  failingSince?: number;
+  /** Whether the failure alert for the current streak has been sent */
+  failureAlerted?: boolean;
+  /** Openings found during quiet hours that have not been sent yet */
+  heldOpenings?: HeldOpening[];
+  /** Notified slots that closed during quiet hours, reported afterwards */
+  heldClosings?: SlotRef[];
+  /** Notified slots that were still open at the last check */
+  notifiedSlots?: NotifiedSlot[];
+}
+
+/** pageHealth/{facilityId} document */
+export interface PageHealthDoc {
+  /** Consecutive pages whose layout was not recognized */
+  unrecognizedStreak: number;
+  /** Whether the owner was alerted and has not been told about recovery yet */
+  alerted: boolean;
+  /** HTTP errors in a row when fetching the pages */
+  httpFailures?: number;
+  /** The pages are not fetched until this time after HTTP errors */
+  backoffUntil?: number;
+  updatedAt: number;
+}
+
+/** facilityState/{facilityId} document */
+export interface FacilityStateDoc {
+  /** Open slot times observed per date, keyed by "YYYY-MM-DD" */
+  observedSlots: OpenSlotMap;
+  updatedAt: number;
+}
+
+/** A slot of a facility that opened or closed between two checks */
+export interface HistoryEvent {
+  facilityId: string;
+  /** Date of the slot (YYYY-MM-DD) */
+  date: string;
+  /** Start time of the slot (e.g., "18:00") */
+  time: string;
+  change: "open" | "close";
+  /** When the change was observed */
+  at: number;
+}
+
+/** availabilityHistory/{autoId} document */
+export interface HistoryEventDoc extends HistoryEvent {
+  /** Deletion time for the Firestore TTL policy (stored as a Timestamp) */
+  expireAt: Date;
 }
@@ -1,2 +1,3 @@
 export * from "./firestore.js";
 export * from "./line.js";
+export * from "./availability.js";
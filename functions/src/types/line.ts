@@ -2,6 +2,8 @@
  * LINE Messaging API types (subset for our use case)
  */
 
+import type { SubscriberType } from "./firestore.js";
+
 export interface LineWebhookBody {
   destination: string;
   events: LineEvent[];
@@ -12,9 +14,27 @@ export interface LineEvent {
   replyToken?: string;
   source?: LineSource;
   message?: LineMessage;
+  /** Set on postback events */
+  postback?: LinePostback;
   timestamp: number;
 }
 
+/** Postback from a postback action or a datetimepicker */
+export interface LinePostback {
+  data: string;
+  params?: LinePostbackParams;
+}
+
+/** Value picked with a datetimepicker (the key depends on its mode) */
+export interface LinePostbackParams {
+  /** "YYYY-MM-DD" (mode "date") */
+  date?: string;
+  /** "HH:mm" (mode "time") */
+  time?: string;
+  /** "YYYY-MM-DDTHH:mm" (mode "datetime") */
+  datetime?: string;
+}
+
 export interface LineSource {
   type: string;
   userId?: string;
@@ -22,6 +42,13 @@ export interface LineSource {
   roomId?: string;
 }
 
+/** Chat an event came from, which is also its subscription */
+export interface ChatTarget {
+  /** User, group or room ID */
+  id: string;
+  type: SubscriberType;
+}
+
 export interface LineMessage {
   type: string;
   id: string;
@@ -30,15 +57,141 @@ export interface LineMessage {
 
 export interface LineReplyMessage {
   replyToken: string;
-  messages: LineTextMessage[];
+  messages: LineSendMessage[];
 }
 
 export interface LinePushMessage {
   to: string;
-  messages: LineTextMessage[];
+  messages: LineSendMessage[];
 }
 
+/** Message objects this bot sends */
+export type LineSendMessage = LineTextMessage | LineFlexMessage;
+
+/** Text, a single message object, or several messages (max 5) */
+export type LineMessageInput = string | LineSendMessage | LineSendMessage[];
+
 export interface LineTextMessage {
   type: "text";
   text: string;
+  quickReply?: LineQuickReply;
+}
+
+export interface LineFlexMessage {
+  type: "flex";
+  /** Shown in notifications and chat lists (max 400 characters) */
+  altText: string;
+  contents: FlexContainer;
+  quickReply?: LineQuickReply;
+}
+
+/** Buttons shown above the keyboard until the user replies */
+export interface LineQuickReply {
+  /** Up to 13 items */
+  items: LineQuickReplyItem[];
+}
+
+export interface LineQuickReplyItem {
+  type: "action";
+  action: LineAction;
+}
+
+// Flex Message containers and components
+
+export type FlexContainer = FlexBubble | FlexCarousel;
+
+export interface FlexBubble {
+  type: "bubble";
+  size?: "nano" | "micro" | "kilo" | "mega" | "giga";
+  header?: FlexBox;
+  body?: FlexBox;
+  footer?: FlexBox;
+}
+
+export interface FlexCarousel {
+  type: "carousel";
+  /** Up to 12 bubbles */
+  contents: FlexBubble[];
+}
+
+export type FlexComponent = FlexBox | FlexText | FlexButton | FlexSeparator;
+
+export interface FlexBox {
+  type: "box";
+  layout: "horizontal" | "vertical" | "baseline";
+  contents: FlexComponent[];
+  spacing?: string;
+  margin?: string;
+  paddingAll?: string;
+  backgroundColor?: string;
+}
+
+export interface FlexText {
+  type: "text";
+  text: string;
+  size?: string;
+  weight?: "regular" | "bold";
+  color?: string;
+  wrap?: boolean;
+  flex?: number;
+  align?: "start" | "end" | "center";
+  margin?: string;
+}
+
+export interface FlexButton {
+  type: "button";
+  action: LineAction;
+  style?: "primary" | "secondary" | "link";
+  height?: "sm" | "md";
+  color?: string;
+  margin?: string;
+}
+
+export interface FlexSeparator {
+  type: "separator";
+  margin?: string;
+}
+
+// Actions
+
+export type LineAction =
+  | LineUriAction
+  | LineMessageAction
+  | LinePostbackAction
+  | LineDatetimePickerAction;
+
+/** Opens a URL */
+export interface LineUriAction {
+  type: "uri";
+  label: string;
+  uri: string;
+}
+
+/** Sends the text as if the user typed it */
+export interface LineMessageAction {
+  type: "message";
+  label: string;
+  text: string;
+}
+
+/** Sends data to the webhook as a postback event */
+export interface LinePostbackAction {
+  type: "postback";
+  label: string;
+  data: string;
+  /** Shown in the chat as the user's message */
+  displayText?: string;
+}
+
+/** Opens a date/time picker; the choice arrives as a postback event */
+export interface LineDatetimePickerAction {
+  type: "datetimepicker";
+  label: string;
+  /** Postback data sent with the picked value */
+  data: string;
+  mode: "date" | "time" | "datetime";
+  /** Initial, earliest and latest values (YYYY-MM-DD in date mode) */
+  initial?: string;
+  min?: string;
+  max?: string;
 }
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseAfterFoundMode,
+  getAfterFoundMode,
+  planAfterFound,
+} from "../src/lib/afterFound.js";
+import type { WatchTarget } from "../src/lib/dateRules.js";
+import type { WatchConfigDoc } from "../src/types/index.js";
+
+const config = (overrides: Partial<WatchConfigDoc> = {}): WatchConfigDoc => ({
+  enabled: true,
+  targetDates: [
+    { date: "2025-01-15", facilityId: "default" },
+    { date: "2025-01-18", facilityId: "default" },
+  ],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe("parseAfterFoundMode", () => {
+  it.each([
+    ["継続", "keep"],
+    ["削除", "remove"],
+    ["停止", "pause"],
+    ["解除", null],
+    ["remove", null],
+  ])("%s should be %s", (input, expected) => {
+    expect(parseAfterFoundMode(input)).toBe(expected);
+  });
+});
+
+describe("getAfterFoundMode", () => {
+  const target = { date: "2025-01-15", facilityId: "default" };
+
+  it("should keep dates by default", () => {
+    expect(getAfterFoundMode(config(), target)).toBe("keep");
+  });
+
+  it("should fall back to the config-wide mode", () => {
+    expect(getAfterFoundMode(config({ afterFound: "remove" }), target)).toBe(
+      "remove"
+    );
+    expect(getAfterFoundMode(config({ afterFound: "pause" }))).toBe("pause");
+  });
+
+  it("should prefer the date's own mode", () => {
+    expect(
+      getAfterFoundMode(config({ afterFound: "remove" }), {
+        ...target,
+        afterFound: "keep",
+      })
+    ).toBe("keep");
+  });
+});
+
+describe("planAfterFound", () => {
+  const alerted: WatchTarget = { date: "2025-01-15", facilityId: "default" };
+
+  it("should do nothing in keep mode", () => {
+    expect(planAfterFound(config(), [alerted])).toEqual({
+      remove: [],
+      pause: false,
+    });
+  });
+
+  it("should remove alerted dates", () => {
+    expect(planAfterFound(config({ afterFound: "remove" }), [alerted])).toEqual(
+      { remove: [alerted], pause: false }
+    );
+  });
+
+  it("should pause in pause mode", () => {
+    expect(planAfterFound(config({ afterFound: "pause" }), [alerted])).toEqual(
+      { remove: [], pause: true }
+    );
+  });
+
+  it("should use each date's own mode", () => {
+    const dated = config({
+      targetDates: [
+        { ...alerted, afterFound: "remove" },
+        { date: "2025-01-18", facilityId: "default" },
+      ],
+    });
+    const plan = planAfterFound(dated, [
+      { ...alerted, afterFound: "remove" },
+      { date: "2025-01-18", facilityId: "default" },
+    ]);
+    expect(plan).toEqual({
+      remove: [{ ...alerted, afterFound: "remove" }],
+      pause: false,
+    });
+  });
+
+  it("should keep dates expanded from a rule", () => {
+    const rule = { weekdays: [6], facilityId: "default" };
+    const plan = planAfterFound(
+      config({ afterFound: "remove", targetDates: [], dateRules: [rule] }),
+      [{ date: "2025-01-18", facilityId: "default", rule }]
+    );
+    expect(plan).toEqual({ remove: [], pause: false });
+  });
+
+  it("should pause instead of watching all dates once none are left", () => {
+    const plan = planAfterFound(config({ afterFound: "remove" }), [
+      alerted,
+      { date: "2025-01-18", facilityId: "default" },
+    ]);
+    expect(plan.remove).toHaveLength(2);
+    expect(plan.pause).toBe(true);
+  });
+
+  it("should pause for all-dates alerts unless dates are kept", () => {
+    const allDates = { targetDates: [] };
+    expect(planAfterFound(config(allDates), [], true).pause).toBe(false);
+    expect(
+      planAfterFound(config({ ...allDates, afterFound: "remove" }), [], true)
+        .pause
+    ).toBe(true);
+  });
+});
@@ -1,5 +1,15 @@
-import { describe, it, expect } from "vitest";
-import { detectAvailability } from "../src/lib/availability.js";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  checkAvailability,
+  checkFacilityDates,
+  detectAvailability,
+  parseAvailabilityGrid,
+  parseCalendarPage,
+  findDateColumn,
+  getOpenSlots,
+  formatOpenSlot,
+} from "../src/lib/availability.js";
+import type { FacilityDoc } from "../src/types/index.js";
 
 /**
  * Test fixtures based on actual SelectType HTML structure.
@@ -409,3 +419,264 @@ describe("detectAvailability", () => {
     });
   });
 });
+
+describe("parseAvailabilityGrid", () => {
+  it("should return a column for every date and a slot for every time row", () => {
+    const html = createSelectTypeHtml(
+      ["1/14", "1/15", "1/16"],
+      [
+        ["×", "●", ""],
+        ["▲", "×", "×"],
+      ]
+    );
+    const grid = parseAvailabilityGrid(html);
+    expect(grid).not.toBeNull();
+    expect(grid?.times).toEqual(["12:00", "13:00"]);
+    expect(grid?.columns.map((c) => c.label)).toEqual(["1/14", "1/15", "1/16"]);
+    expect(grid?.columns[0]).toEqual({
+      label: "1/14",
+      month: 1,
+      day: 14,
+      slots: [
+        { time: "12:00", marker: "×" },
+        { time: "13:00", marker: "▲" },
+      ],
+    });
+    expect(grid?.columns[2].slots).toEqual([
+      { time: "12:00", marker: "" },
+      { time: "13:00", marker: "×" },
+    ]);
+  });
+
+  it("should return null when there is no cl-container table", () => {
+    expect(parseAvailabilityGrid("")).toBeNull();
+    const html = '<span class="symbol-black">●</span>';
+    expect(parseAvailabilityGrid(html)).toBeNull();
+  });
+
+  it("should not pick up markers from the legend section", () => {
+    const html = createSelectTypeHtml(["1/2"], [["×"]]);
+    const grid = parseAvailabilityGrid(html);
+    expect(grid?.columns[0].slots).toEqual([{ time: "12:00", marker: "×" }]);
+  });
+});
+
+describe("parseCalendarPage", () => {
+  it("should recognize a calendar with nothing open", () => {
+    const html = createSelectTypeHtml(["1/2", "1/3"], [["×", "×"]]);
+    expect(parseCalendarPage(html).layout).toBe("ok");
+  });
+
+  it("should flag pages without a cl-container table", () => {
+    const html = "<html><body>メンテナンス中</body></html>";
+    expect(parseCalendarPage(html)).toEqual({
+      layout: "unrecognized",
+      grid: null,
+    });
+  });
+
+  it("should flag a container without dated headers", () => {
+    const html = createSelectTypeHtml(["1/2", "1/3"], [["●", "×"]]).replace(
+      /class="cl-day date/g,
+      'class="day date'
+    );
+    expect(parseCalendarPage(html).layout).toBe("unrecognized");
+  });
+});
+
+describe("findDateColumn", () => {
+  const grid = parseAvailabilityGrid(
+    createSelectTypeHtml(["12/31", "1/1"], [["×", "●"]])
+  )!;
+
+  it("should find the column by month and day", () => {
+    expect(findDateColumn(grid, "2026-01-01")?.label).toBe("1/1");
+    expect(findDateColumn(grid, "2025-12-31")?.label).toBe("12/31");
+  });
+
+  it("should return null when the date is not displayed", () => {
+    expect(findDateColumn(grid, "2026-01-02")).toBeNull();
+  });
+});
+
+describe("getOpenSlots", () => {
+  it("should list ● and ▲ slots with their time labels", () => {
+    const grid = parseAvailabilityGrid(
+      createSelectTypeHtml(
+        ["1/15", "1/16"],
+        [
+          ["×", "●"],
+          ["▲", "×"],
+          ["●", ""],
+        ]
+      )
+    )!;
+    expect(getOpenSlots(grid.columns)).toEqual([
+      { label: "1/15", time: "13:00", marker: "▲" },
+      { label: "1/15", time: "14:00", marker: "●" },
+      { label: "1/16", time: "12:00", marker: "●" },
+    ]);
+    expect(getOpenSlots([grid.columns[1]]).map(formatOpenSlot)).toEqual([
+      "1/16 12:00 ●",
+    ]);
+  });
+});
+
+/**
+ * Adds a year caption and a next-week link to a SelectType fixture.
+ */
+const withPaging = (html: string, caption: string, nextHref?: string) =>
+  html.replace(
+    '<div class="cl-type-week rsvcal_cls">',
+    `<div class="cl-head-ym">${caption}</div>` +
+      (nextHref
+        ? `<a class="cl-next-week" href="${nextHref}">次週<i class="fa"></i></a>`
+        : "") +
+      '<div class="cl-type-week rsvcal_cls">'
+  );
+
+describe("year-aware parsing", () => {
+  it("should assign full dates from the year caption", () => {
+    const html = withPaging(
+      createSelectTypeHtml(["12/30", "12/31", "1/1"], [["×", "×", "●"]]),
+      "2025年12月"
+    );
+    const grid = parseAvailabilityGrid(html)!;
+    expect(grid.columns.map((c) => c.date)).toEqual([
+      "2025-12-30",
+      "2025-12-31",
+      "2026-01-01",
+    ]);
+  });
+
+  it("should match the year, not only M/D", () => {
+    const html = withPaging(
+      createSelectTypeHtml(["1/14", "1/15", "1/16"], [["×", "●", "×"]]),
+      "2025年1月"
+    );
+    expect(detectAvailability(html, "2025-01-15")).toBe(true);
+    expect(detectAvailability(html, "2026-01-15")).toBe(false);
+  });
+
+  it("should read the next-week link", () => {
+    const html = withPaging(
+      createSelectTypeHtml(["1/14"], [["×"]]),
+      "2025年1月",
+      "/rsv/?id=abc&amp;w=1"
+    );
+    expect(parseAvailabilityGrid(html)?.nextWeekHref).toBe("/rsv/?id=abc&w=1");
+  });
+});
+
+describe("checkAvailability week paging", () => {
+  const facility: FacilityDoc = {
+    name: "test",
+    selectTypeId: "abc",
+    label: "テスト",
+    updatedAt: 0,
+  };
+
+  const week1 = withPaging(
+    createSelectTypeHtml(["1/14", "1/15"], [["×", "×"]]),
+    "2025年1月",
+    "/rsv/?id=abc&w=1"
+  );
+  const week2 = withPaging(
+    createSelectTypeHtml(["1/21", "1/22"], [["●", "×"]]),
+    "2025年1月"
+  );
+
+  const stubPages = (pages: Record<string, string>) => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const html = pages[url];
+      return {
+        ok: html !== undefined,
+        status: html !== undefined ? 200 : 404,
+        statusText: html !== undefined ? "OK" : "Not Found",
+        text: async () => html ?? "",
+      };
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should follow the next-week link until the date is found", async () => {
+    const fetchMock = stubPages({
+      "https://select-type.com/rsv/?id=abc": week1,
+      "https://select-type.com/rsv/?id=abc&w=1": week2,
+    });
+    const result = await checkAvailability(facility, "2025-01-21");
+    expect(result.hasAvailability).toBe(true);
+    expect(result.openSlots.map(formatOpenSlot)).toEqual(["1/21 12:00 ●"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report dates beyond the last offered week as not bookable", async () => {
+    stubPages({
+      "https://select-type.com/rsv/?id=abc": week1,
+      "https://select-type.com/rsv/?id=abc&w=1": week2,
+    });
+    const result = await checkAvailability(facility, "2025-02-10");
+    expect(result.hasAvailability).toBe(false);
+    expect(result.notBookable).toBe(true);
+  });
+
+  it("should not page forward for dates before the displayed week", async () => {
+    const fetchMock = stubPages({
+      "https://select-type.com/rsv/?id=abc": week1,
+    });
+    const result = await checkAvailability(facility, "2025-01-10");
+    expect(result.hasAvailability).toBe(false);
+    expect(result.notBookable).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return the HTTP error", async () => {
+    stubPages({});
+    const result = await checkAvailability(facility, "2025-01-15");
+    expect(result.error).toBe("HTTP 404: Not Found");
+    expect(result.httpStatus).toBe(404);
+  });
+
+  it("should fetch each week page once for several dates", async () => {
+    const fetchMock = stubPages({
+      "https://select-type.com/rsv/?id=abc": week1,
+      "https://select-type.com/rsv/?id=abc&w=1": week2,
+    });
+    const result = await checkFacilityDates(facility, [
+      "2025-01-21",
+      "2025-01-14",
+      "2025-01-15",
+      "2025-01-22",
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.pagesFetched).toBe(2);
+    expect(result.byDate.get("2025-01-14")?.hasAvailability).toBe(false);
+    expect(result.byDate.get("2025-01-21")?.hasAvailability).toBe(true);
+    expect(result.byDate.get("2025-01-22")?.hasAvailability).toBe(false);
+    expect(result.allDates.grid?.columns[0].label).toBe("1/14");
+  });
+
+  it("should stop paging once every date is found", async () => {
+    const fetchMock = stubPages({
+      "https://select-type.com/rsv/?id=abc": week1,
+      "https://select-type.com/rsv/?id=abc&w=1": week2,
+    });
+    await checkFacilityDates(facility, ["2025-01-14", "2025-01-15"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report the error for every date when a page fails", async () => {
+    stubPages({ "https://select-type.com/rsv/?id=abc": week1 });
+    const result = await checkFacilityDates(facility, [
+      "2025-01-14",
+      "2025-01-21",
+    ]);
+    expect(result.byDate.get("2025-01-14")?.error).toBeUndefined();
+    expect(result.byDate.get("2025-01-21")?.error).toBe("HTTP 404: Not Found");
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseDate,
+  parseDateInput,
+  parseDateExpression,
+  parseDateRange,
+  parseMultipleDates,
+} from "../src/lib/dateParser.js";
+
+// A Wednesday; the week runs from Monday 1/13 to Sunday 1/19
+const TODAY = "2025-01-15";
+
+describe("parseDate", () => {
+  it.each([
+    // Numeric forms
+    ["1/15", "2025-01-15"],
+    ["01/25", "2025-01-25"],
+    ["2026/1/15", "2026-01-15"],
+    ["1-15", "2025-01-15"],
+    ["2025-01-15", "2025-01-15"],
+    ["2025-1-25", "2025-01-25"],
+    // Japanese forms
+    ["1月15日", "2025-01-15"],
+    ["1月15", "2025-01-15"],
+    ["2026年2月3日", "2026-02-03"],
+    // Full-width digits and slashes
+    ["１/１５", "2025-01-15"],
+    ["１／１５", "2025-01-15"],
+    ["２０２６－０１－１５", "2026-01-15"],
+    ["１月１５日", "2025-01-15"],
+    // Relative days
+    ["今日", "2025-01-15"],
+    ["明日", "2025-01-16"],
+    ["あした", "2025-01-16"],
+    ["明後日", "2025-01-17"],
+    ["あさって", "2025-01-17"],
+    // Weekdays of this and next weeks (weeks start on Monday)
+    ["今週の土曜", "2025-01-18"],
+    ["今週土曜日", "2025-01-18"],
+    ["今週の日曜", "2025-01-19"],
+    ["来週の土曜", "2025-01-25"],
+    ["来週の月曜日", "2025-01-20"],
+    ["再来週の金曜", "2025-01-31"],
+    // Surrounding whitespace
+    [" 1/15 ", "2025-01-15"],
+  ])("should parse %s", (input, expected) => {
+    expect(parseDate(input, TODAY)).toBe(expected);
+  });
+
+  it.each([
+    "",
+    "13/1",
+    "1/32",
+    "2/31",
+    "2025-01-14",
+    "土曜",
+    "今週",
+    "来週末",
+    "明々後日",
+    "abc",
+    "1/15/2025",
+  ])("should reject %s", (input) => {
+    expect(parseDate(input, TODAY)).toBeNull();
+  });
+
+  it("should resolve dates without a year to their next occurrence", () => {
+    expect(parseDate("1/5", "2025-12-20")).toBe("2026-01-05");
+    expect(parseDate("１月５日", "2025-12-20")).toBe("2026-01-05");
+    expect(parseDate("12/25", "2025-12-20")).toBe("2025-12-25");
+    expect(parseDate("1/14", TODAY)).toBe("2026-01-14");
+    // 2/29 is next found in a leap year
+    expect(parseDate("2/29", "2025-03-01")).toBe("2028-02-29");
+  });
+
+  it("should cross month and year boundaries", () => {
+    expect(parseDate("明日", "2025-12-31")).toBe("2026-01-01");
+    expect(parseDate("来週の月曜", "2025-12-31")).toBe("2026-01-05");
+  });
+
+  it("should resolve weekdays from a Sunday within the same week", () => {
+    // 2025-01-19 is a Sunday, the last day of the week of 1/13
+    expect(parseDate("今週の日曜", "2025-01-19")).toBe("2025-01-19");
+    expect(parseDate("来週の土曜", "2025-01-19")).toBe("2025-01-25");
+  });
+
+  it("should accept past dates when allowed", () => {
+    const options = { allowPast: true };
+    expect(parseDate("2024-12-01", TODAY, options)).toBe("2024-12-01");
+    expect(parseDate("今週の月曜", TODAY, options)).toBe("2025-01-13");
+    // Without a year, the occurrence closest to today
+    expect(parseDate("12/28", TODAY, options)).toBe("2024-12-28");
+    expect(parseDate("1/5", "2025-12-20", options)).toBe("2026-01-05");
+  });
+});
+
+describe("parseDateInput", () => {
+  it.each([
+    ["2/31", "invalid"],
+    ["2025/2/29", "invalid"],
+    ["2025-04-31", "invalid"],
+    ["1/32", "invalid"],
+    ["13/1", "invalid"],
+    ["0/10", "invalid"],
+    ["1月0日", "invalid"],
+    ["2025-01-14", "past"],
+    ["2024/12/31", "past"],
+    ["今週の月曜", "past"],
+  ])("should reject %s as %s", (input, error) => {
+    expect(parseDateInput(input, TODAY)).toEqual({ error });
+  });
+
+  it("should accept leap days and today", () => {
+    expect(parseDateInput("2028/2/29", TODAY)).toEqual({ date: "2028-02-29" });
+    expect(parseDateInput("2025-01-15", TODAY)).toEqual({
+      date: "2025-01-15",
+    });
+  });
+
+  it("should return null for text that is not a date", () => {
+    expect(parseDateInput("状態", TODAY)).toBeNull();
+    expect(parseDateInput("1/15/2025", TODAY)).toBeNull();
+  });
+});
+
+describe("parseDateExpression", () => {
+  it.each([
+    ["今週末", ["2025-01-18", "2025-01-19"]],
+    ["来週末", ["2025-01-25", "2025-01-26"]],
+    ["再来週末", ["2025-02-01", "2025-02-02"]],
+    ["1/15", ["2025-01-15"]],
+    ["明日", ["2025-01-16"]],
+  ])("should parse %s", (input, dates) => {
+    expect(parseDateExpression(input, TODAY)).toEqual({ dates });
+  });
+
+  it("should leave out days of this weekend that have passed", () => {
+    // 2025-01-19 is a Sunday
+    expect(parseDateExpression("今週末", "2025-01-19")).toEqual({
+      dates: ["2025-01-19"],
+    });
+  });
+
+  it("should reject invalid input", () => {
+    expect(parseDateExpression("週末", TODAY)).toBeNull();
+    expect(parseDateExpression("1/32", TODAY)).toEqual({ error: "invalid" });
+    expect(parseDateExpression("2025/1/1", TODAY)).toEqual({ error: "past" });
+  });
+});
+
+describe("parseDateRange", () => {
+  it.each([
+    ["1/15-1/20", { start: "2025-01-15", end: "2025-01-20" }],
+    ["1/15〜1/20", { start: "2025-01-15", end: "2025-01-20" }],
+    ["1/15～1/20", { start: "2025-01-15", end: "2025-01-20" }],
+    ["１/１５－１/２０", { start: "2025-01-15", end: "2025-01-20" }],
+    ["1月15日〜1月20日", { start: "2025-01-15", end: "2025-01-20" }],
+    ["明日〜来週の月曜", { start: "2025-01-16", end: "2025-01-20" }],
+    ["12/28-1/3", { start: "2025-12-28", end: "2026-01-03" }],
+    ["1/10-1/20", { start: "2026-01-10", end: "2026-01-20" }],
+    // Reversed ranges are left for the caller to reject
+    ["2026/1/3-2025/12/28", { start: "2026-01-03", end: "2025-12-28" }],
+  ])("should parse %s", (input, expected) => {
+    expect(parseDateRange(input, TODAY)).toEqual(expected);
+  });
+
+  it("should reject invalid or past ends", () => {
+    expect(parseDateRange("1/20-2/31", TODAY)).toEqual({ error: "invalid" });
+    expect(parseDateRange("2025/1/1-1/20", TODAY)).toEqual({ error: "past" });
+  });
+
+  it.each(["1/15", "1-15", "2025-01-15", "1/15-", "〜1/20", "1/15-abc"])(
+    "should not take %s as a range",
+    (input) => {
+      expect(parseDateRange(input, TODAY)).toBeNull();
+    }
+  );
+});
+
+describe("parseMultipleDates", () => {
+  it("should parse dates separated by spaces and commas", () => {
+    expect(
+      parseMultipleDates("1/20 1/15,1/16、1/17　1/18", TODAY).dates
+    ).toEqual([
+      "2025-01-15",
+      "2025-01-16",
+      "2025-01-17",
+      "2025-01-18",
+      "2025-01-20",
+    ]);
+  });
+
+  it("should expand ranges and weekends and drop duplicates", () => {
+    expect(parseMultipleDates("1/17-1/19 来週末 1/18", TODAY).dates).toEqual([
+      "2025-01-17",
+      "2025-01-18",
+      "2025-01-19",
+      "2025-01-25",
+      "2025-01-26",
+    ]);
+  });
+
+  it("should mix natural and numeric forms", () => {
+    expect(parseMultipleDates("明日 1月20日 ２/１", TODAY).dates).toEqual([
+      "2025-01-16",
+      "2025-01-20",
+      "2025-02-01",
+    ]);
+  });
+
+  it("should skip parts that are not dates", () => {
+    expect(parseMultipleDates("1/15 foo", TODAY)).toEqual({
+      dates: ["2025-01-15"],
+      rejected: [],
+    });
+    expect(parseMultipleDates("状態", TODAY)).toEqual({
+      dates: [],
+      rejected: [],
+    });
+  });
+
+  it("should report invalid and past dates", () => {
+    expect(parseMultipleDates("1/20 2/31 2025/1/1", TODAY)).toEqual({
+      dates: ["2025-01-20"],
+      rejected: [
+        { input: "2/31", error: "invalid" },
+        { input: "2025/1/1", error: "past" },
+      ],
+    });
+  });
+});
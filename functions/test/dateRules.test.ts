@@ -0,0 +1,265 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandDateRange,
+  parseDateRule,
+  formatDateRule,
+  expandDateRule,
+  getWatchTargets,
+  findExpiredTargets,
+  isWatchingAllDates,
+} from "../src/lib/dateRules.js";
+import { BOOKABLE_HORIZON_DAYS } from "../src/lib/availability.js";
+import type { WatchConfigDoc } from "../src/types/index.js";
+
+const config = (overrides: Partial<WatchConfigDoc>): WatchConfigDoc => ({
+  enabled: true,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe("expandDateRange", () => {
+  it("should list every date including both ends", () => {
+    expect(expandDateRange("2025-01-15", "2025-01-18")).toEqual([
+      "2025-01-15",
+      "2025-01-16",
+      "2025-01-17",
+      "2025-01-18",
+    ]);
+  });
+
+  it("should cross month and year boundaries", () => {
+    expect(expandDateRange("2025-12-30", "2026-01-02")).toEqual([
+      "2025-12-30",
+      "2025-12-31",
+      "2026-01-01",
+      "2026-01-02",
+    ]);
+  });
+
+  it("should accept a single-day range", () => {
+    expect(expandDateRange("2025-01-15", "2025-01-15")).toEqual([
+      "2025-01-15",
+    ]);
+  });
+
+  it("should reject reversed ranges", () => {
+    expect(expandDateRange("2025-01-20", "2025-01-15")).toBeNull();
+  });
+
+  it("should reject ranges longer than the bookable horizon", () => {
+    const full = expandDateRange("2025-01-01", "2025-02-25");
+    expect(full).toHaveLength(BOOKABLE_HORIZON_DAYS);
+    expect(expandDateRange("2025-01-01", "2025-02-26")).toBeNull();
+  });
+});
+
+describe("parseDateRule", () => {
+  it("should parse weekly rules", () => {
+    expect(parseDateRule("毎週土曜")).toEqual({ weekdays: [6] });
+    expect(parseDateRule("毎週土曜日")).toEqual({ weekdays: [6] });
+    expect(parseDateRule("毎週土")).toEqual({ weekdays: [6] });
+    expect(parseDateRule("土曜")).toEqual({ weekdays: [6] });
+    expect(parseDateRule("毎週月水金")).toEqual({ weekdays: [1, 3, 5] });
+  });
+
+  it("should parse multiple weekdays in any order", () => {
+    expect(parseDateRule("土日")).toEqual({ weekdays: [0, 6] });
+    expect(parseDateRule("土曜・日曜")).toEqual({ weekdays: [0, 6] });
+  });
+
+  it("should parse a month before or after the weekdays", () => {
+    expect(parseDateRule("土日 2月")).toEqual({ weekdays: [0, 6], month: 2 });
+    expect(parseDateRule("土日　2月")).toEqual({ weekdays: [0, 6], month: 2 });
+    expect(parseDateRule("2月の土日")).toEqual({ weekdays: [0, 6], month: 2 });
+    expect(parseDateRule("12月 毎週金曜")).toEqual({
+      weekdays: [5],
+      month: 12,
+    });
+    expect(parseDateRule("土 3月")).toEqual({ weekdays: [6], month: 3 });
+  });
+
+  it("should parse named weekday sets", () => {
+    expect(parseDateRule("平日")).toEqual({ weekdays: [1, 2, 3, 4, 5] });
+    expect(parseDateRule("毎週末")).toBeNull();
+    expect(parseDateRule("週末 2月")).toEqual({ weekdays: [0, 6], month: 2 });
+  });
+
+  it("should not take plain words or other commands as rules", () => {
+    expect(parseDateRule("土")).toBeNull();
+    expect(parseDateRule("日")).toBeNull();
+    expect(parseDateRule("2月")).toBeNull();
+    expect(parseDateRule("状態")).toBeNull();
+    expect(parseDateRule("開始")).toBeNull();
+    expect(parseDateRule("1/15")).toBeNull();
+    expect(parseDateRule("5分")).toBeNull();
+  });
+
+  it("should reject invalid months", () => {
+    expect(parseDateRule("土日 13月")).toBeNull();
+    expect(parseDateRule("0月の土日")).toBeNull();
+  });
+});
+
+describe("formatDateRule", () => {
+  it("should format weekly and monthly rules", () => {
+    expect(formatDateRule({ weekdays: [6] })).toBe("毎週土曜");
+    expect(formatDateRule({ weekdays: [0, 3] })).toBe("毎週日水");
+    expect(formatDateRule({ weekdays: [0, 6] })).toBe("週末");
+    expect(formatDateRule({ weekdays: [0, 6], month: 2 })).toBe("2月の週末");
+    expect(formatDateRule({ weekdays: [1, 2, 3, 4, 5] })).toBe("平日");
+    expect(formatDateRule({ weekdays: [5], month: 12 })).toBe("12月の金曜");
+  });
+
+  it("should round-trip through parseDateRule", () => {
+    for (const input of ["毎週土曜", "2月の金曜", "平日", "毎週月水金"]) {
+      const rule = parseDateRule(input);
+      expect(rule).not.toBeNull();
+      expect(parseDateRule(formatDateRule(rule!))).toEqual(rule);
+    }
+  });
+});
+
+describe("expandDateRule", () => {
+  // 2025-01-15 is a Wednesday
+  const today = "2025-01-15";
+
+  it("should list matching weekdays within the horizon", () => {
+    const dates = expandDateRule({ weekdays: [6] }, today);
+    expect(dates[0]).toBe("2025-01-18");
+    expect(dates).toHaveLength(8);
+    expect(dates[dates.length - 1]).toBe("2025-03-08");
+  });
+
+  it("should include today when it matches", () => {
+    expect(expandDateRule({ weekdays: [3] }, today, 7)).toEqual([
+      "2025-01-15",
+    ]);
+  });
+
+  it("should limit dates to the rule's month", () => {
+    expect(expandDateRule({ weekdays: [0, 6], month: 2 }, today)).toEqual([
+      "2025-02-01",
+      "2025-02-02",
+      "2025-02-08",
+      "2025-02-09",
+      "2025-02-15",
+      "2025-02-16",
+      "2025-02-22",
+      "2025-02-23",
+    ]);
+  });
+
+  it("should return no dates when the month is beyond the horizon", () => {
+    expect(expandDateRule({ weekdays: [6], month: 6 }, today)).toEqual([]);
+  });
+
+  it("should pick up the month of the next year", () => {
+    const dates = expandDateRule({ weekdays: [5], month: 1 }, "2025-12-20");
+    expect(dates[0]).toBe("2026-01-02");
+  });
+});
+
+describe("getWatchTargets", () => {
+  const today = "2025-01-15";
+
+  it("should return added dates when there are no rules", () => {
+    const targets = getWatchTargets(
+      config({
+        targetDates: [
+          { date: "2025-01-20", facilityId: "default" },
+          { date: "2025-01-16", facilityId: "sauna2" },
+        ],
+      }),
+      today
+    );
+    expect(targets.map((t) => t.date)).toEqual(["2025-01-16", "2025-01-20"]);
+  });
+
+  it("should merge rule dates with added dates", () => {
+    const rule = { weekdays: [6], month: 1, facilityId: "default" };
+    const targets = getWatchTargets(
+      config({
+        targetDates: [
+          {
+            date: "2025-01-18",
+            facilityId: "default",
+            timeWindow: { start: "18:00", end: "21:00" },
+          },
+          { date: "2025-01-20", facilityId: "default" },
+        ],
+        dateRules: [rule],
+      }),
+      today
+    );
+    expect(targets).toEqual([
+      // Added date wins over the same rule date
+      {
+        date: "2025-01-18",
+        facilityId: "default",
+        timeWindow: { start: "18:00", end: "21:00" },
+      },
+      { date: "2025-01-20", facilityId: "default" },
+      { date: "2025-01-25", facilityId: "default", rule },
+    ]);
+  });
+
+  it("should keep the same date of different facilities", () => {
+    const targets = getWatchTargets(
+      config({
+        targetDates: [{ date: "2025-01-18", facilityId: "sauna2" }],
+        dateRules: [{ weekdays: [6], month: 1, facilityId: "default" }],
+      }),
+      today
+    );
+    expect(targets.map((t) => `${t.facilityId}:${t.date}`)).toEqual([
+      "default:2025-01-18",
+      "sauna2:2025-01-18",
+      "default:2025-01-25",
+    ]);
+  });
+});
+
+describe("findExpiredTargets", () => {
+  it("should list added dates before today", () => {
+    const expired = findExpiredTargets(
+      config({
+        targetDates: [
+          { date: "2025-01-13", facilityId: "default" },
+          { date: "2025-01-14", facilityId: "sauna2" },
+          { date: "2025-01-15", facilityId: "default" },
+          { date: "2025-01-20", facilityId: "default" },
+        ],
+      }),
+      "2025-01-15"
+    );
+    expect(expired).toEqual([
+      { date: "2025-01-13", facilityId: "default" },
+      { date: "2025-01-14", facilityId: "sauna2" },
+    ]);
+  });
+
+  it("should return nothing without added dates", () => {
+    expect(findExpiredTargets(config({}), "2025-01-15")).toEqual([]);
+  });
+});
+
+describe("isWatchingAllDates", () => {
+  it("should be true without dates and rules", () => {
+    expect(isWatchingAllDates(null)).toBe(true);
+    expect(isWatchingAllDates(config({ targetDates: [] }))).toBe(true);
+  });
+
+  it("should be false with dates or rules", () => {
+    expect(
+      isWatchingAllDates(
+        config({ targetDates: [{ date: "2025-01-18", facilityId: "default" }] })
+      )
+    ).toBe(false);
+    // A rule without dates in the horizon still disables all-dates mode
+    expect(
+      isWatchingAllDates(
+        config({ dateRules: [{ weekdays: [6], month: 6, facilityId: "default" }] })
+      )
+    ).toBe(false);
+  });
+});
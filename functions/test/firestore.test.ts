@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { migrateLegacyWatchConfig } from "../src/lib/firestore.js";
+
+describe("migrateLegacyWatchConfig", () => {
+  it("should move plain date strings to the built-in facility", () => {
+    const config = migrateLegacyWatchConfig(
+      {
+        enabled: true,
+        targetDates: [
+          "2025-01-18",
+          { date: "2025-01-15", facilityId: "sauna2" },
+        ],
+        updatedAt: 0,
+      },
+      1000
+    );
+    expect(config.targetDates).toEqual([
+      { date: "2025-01-15", facilityId: "sauna2" },
+      { date: "2025-01-18", facilityId: "default" },
+    ]);
+  });
+
+  it("should sort by date, then facility", () => {
+    const config = migrateLegacyWatchConfig({
+      enabled: true,
+      targetDates: [
+        { date: "2025-01-15", facilityId: "sauna2" },
+        "2025-01-15",
+        "2025-01-10",
+      ],
+      updatedAt: 0,
+    });
+    expect(config.targetDates).toEqual([
+      { date: "2025-01-10", facilityId: "default" },
+      { date: "2025-01-15", facilityId: "default" },
+      { date: "2025-01-15", facilityId: "sauna2" },
+    ]);
+  });
+
+  it("should keep the other settings and stamp the migration time", () => {
+    const config = migrateLegacyWatchConfig(
+      {
+        enabled: false,
+        intervalMinutes: 10,
+        timeWindow: { start: "18:00", end: "21:00" },
+        updatedAt: 0,
+      },
+      1000
+    );
+    expect(config).toEqual({
+      enabled: false,
+      intervalMinutes: 10,
+      timeWindow: { start: "18:00", end: "21:00" },
+      updatedAt: 1000,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildAvailabilityBubble,
+  buildAvailabilityMessage,
+  buildInfoMessage,
+} from "../src/lib/flex.js";
+import type { AvailabilityCard } from "../src/lib/flex.js";
+import type { FlexBox, FlexButton, FlexBubble } from "../src/types/index.js";
+
+const card = (overrides: Partial<AvailabilityCard> = {}): AvailabilityCard => ({
+  facilityLabel: "サウナ",
+  dateLabel: "1/15",
+  slots: ["1/15 18:00 ▲"],
+  reservationUrl: "https://select-type.com/rsv/?id=abc",
+  stopData: "action=removeDate&date=2025-01-15&facilityId=default",
+  remindData: "action=snooze&date=2025-01-15&facilityId=default&minutes=30",
+  ...overrides,
+});
+
+const footerButtons = (box: FlexBox | undefined): FlexButton[] =>
+  (box?.contents ?? []) as FlexButton[];
+
+describe("buildAvailabilityBubble", () => {
+  it("should link the reservation page and offer stop and remind buttons", () => {
+    const buttons = footerButtons(buildAvailabilityBubble(card()).footer);
+    expect(buttons.map((b) => b.action)).toEqual([
+      {
+        type: "uri",
+        label: "予約ページを開く",
+        uri: "https://select-type.com/rsv/?id=abc",
+      },
+      {
+        type: "postback",
+        label: "この日の監視をやめる",
+        data: "action=removeDate&date=2025-01-15&facilityId=default",
+        displayText: "この日の監視をやめる",
+      },
+      {
+        type: "postback",
+        label: "30分後に再通知",
+        data: "action=snooze&date=2025-01-15&facilityId=default&minutes=30",
+        displayText: "30分後に再通知",
+      },
+    ]);
+  });
+
+  it("should omit the stop button when all dates are watched", () => {
+    const bubble = buildAvailabilityBubble(
+      card({ dateLabel: undefined, stopData: undefined })
+    );
+    const labels = footerButtons(bubble.footer).map((b) => b.action.label);
+    expect(labels).toEqual(["予約ページを開く", "30分後に再通知"]);
+  });
+
+  it("should offer the booked button after the reservation link", () => {
+    const bubble = buildAvailabilityBubble(
+      card({ bookedData: "action=booked&date=2025-01-15&facilityId=default" })
+    );
+    const labels = footerButtons(bubble.footer).map((b) => b.action.label);
+    expect(labels).toEqual([
+      "予約ページを開く",
+      "予約できた",
+      "この日の監視をやめる",
+      "30分後に再通知",
+    ]);
+  });
+
+  it("should head the card with the given title", () => {
+    const headerText = (bubble: FlexBubble) =>
+      (bubble.header?.contents[0] as { text: string }).text;
+    expect(headerText(buildAvailabilityBubble(card()))).toBe(
+      "空きが見つかりました！"
+    );
+    expect(
+      headerText(buildAvailabilityBubble(card({ title: "まだ空いています" })))
+    ).toBe("まだ空いています");
+  });
+});
+
+describe("buildAvailabilityMessage", () => {
+  it("should send a single card as a bubble", () => {
+    const message = buildAvailabilityMessage([card()], "空きが見つかりました！");
+    expect(message.type).toBe("flex");
+    expect(message.contents.type).toBe("bubble");
+  });
+
+  it("should put several cards in a carousel of at most 12", () => {
+    const cards = Array.from({ length: 15 }, () => card());
+    const message = buildAvailabilityMessage(cards, "alt");
+    expect(message.contents.type).toBe("carousel");
+    if (message.contents.type === "carousel") {
+      expect(message.contents.contents).toHaveLength(12);
+    }
+  });
+
+  it("should truncate the altText to 400 characters", () => {
+    const message = buildAvailabilityMessage([card()], "あ".repeat(500));
+    expect(message.altText).toHaveLength(400);
+  });
+});
+
+describe("buildInfoMessage", () => {
+  it("should build the altText from the sections", () => {
+    const message = buildInfoMessage("現在の設定", [
+      { rows: [["状態", "ON（監視中）"]] },
+      { title: "監視日（1件）", lines: ["2025年1月15日（サウナ）"] },
+    ]);
+    expect(message.altText).toBe(
+      "【現在の設定】\n\n状態: ON（監視中）\n\n監視日（1件）\n2025年1月15日（サウナ）"
+    );
+    expect(message.contents.type).toBe("bubble");
+  });
+
+  it("should add a footer only when actions are given", () => {
+    const withoutActions = buildInfoMessage("使い方", [{ lines: ["a"] }]);
+    const withActions = buildInfoMessage("使い方", [{ lines: ["a"] }], [
+      { type: "message", label: "状態を確認", text: "状態" },
+    ]);
+    expect((withoutActions.contents as FlexBubble).footer).toBeUndefined();
+    expect((withActions.contents as FlexBubble).footer).toBeDefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectObservedSlots,
+  diffObservedSlots,
+  mergeObservedSlots,
+  getOpenIntervals,
+} from "../src/lib/history.js";
+import type {
+  AvailabilityColumn,
+  AvailabilityGrid,
+  FacilityCheckResult,
+  HistoryEvent,
+  SlotMarker,
+} from "../src/types/index.js";
+
+const column = (
+  label: string,
+  markers: SlotMarker[],
+  date?: string
+): AvailabilityColumn => {
+  const [month, day] = label.split("/").map((v) => parseInt(v, 10));
+  return {
+    label,
+    month,
+    day,
+    ...(date ? { date } : {}),
+    slots: markers.map((marker, i) => ({ time: `${18 + i}:00`, marker })),
+  };
+};
+
+const grid = (columns: AvailabilityColumn[]): AvailabilityGrid => ({
+  times: ["18:00", "19:00"],
+  columns,
+});
+
+describe("collectObservedSlots", () => {
+  it("should collect every dated column of the first page", () => {
+    const page = grid([
+      column("1/14", ["×", "×"], "2025-01-14"),
+      column("1/15", ["●", "▲"], "2025-01-15"),
+    ]);
+    const result: FacilityCheckResult = {
+      allDates: { hasAvailability: true, grid: page, openSlots: [] },
+      byDate: new Map(),
+      pagesFetched: 1,
+      layoutRecognized: true,
+    };
+    expect(collectObservedSlots(result)).toEqual({
+      "2025-01-14": [],
+      "2025-01-15": ["18:00", "19:00"],
+    });
+  });
+
+  it("should resolve columns without a year through requested dates", () => {
+    const week2 = grid([column("1/21", ["●", "×"])]);
+    const result: FacilityCheckResult = {
+      allDates: {
+        hasAvailability: false,
+        grid: grid([column("1/14", ["×", "×"])]),
+        openSlots: [],
+      },
+      byDate: new Map([
+        ["2025-01-21", { hasAvailability: true, grid: week2, openSlots: [] }],
+        ["2025-01-22", { hasAvailability: false, openSlots: [], error: "x" }],
+      ]),
+      pagesFetched: 2,
+      layoutRecognized: true,
+    };
+    expect(collectObservedSlots(result)).toEqual({ "2025-01-21": ["18:00"] });
+  });
+
+  it("should observe nothing on an unrecognized layout", () => {
+    const result: FacilityCheckResult = {
+      allDates: { hasAvailability: true, openSlots: [] },
+      byDate: new Map(),
+      pagesFetched: 1,
+      layoutRecognized: false,
+    };
+    expect(collectObservedSlots(result)).toEqual({});
+  });
+});
+
+describe("diffObservedSlots", () => {
+  it("should record openings and closings", () => {
+    const events = diffObservedSlots(
+      "default",
+      { "2025-01-15": ["18:00"] },
+      { "2025-01-15": ["19:00"] },
+      1000
+    );
+    expect(events).toEqual([
+      {
+        facilityId: "default",
+        date: "2025-01-15",
+        time: "19:00",
+        change: "open",
+        at: 1000,
+      },
+      {
+        facilityId: "default",
+        date: "2025-01-15",
+        time: "18:00",
+        change: "close",
+        at: 1000,
+      },
+    ]);
+  });
+
+  it("should treat a date seen for the first time as a baseline", () => {
+    expect(
+      diffObservedSlots("default", {}, { "2025-01-15": ["18:00"] }, 1000)
+    ).toEqual([]);
+  });
+
+  it("should not close slots of dates missing from this run", () => {
+    expect(
+      diffObservedSlots(
+        "default",
+        { "2025-01-15": ["18:00"], "2025-01-21": ["18:00"] },
+        { "2025-01-15": ["18:00"] },
+        1000
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("mergeObservedSlots", () => {
+  it("should keep unobserved dates and drop past ones", () => {
+    const merged = mergeObservedSlots(
+      { "2025-01-10": ["18:00"], "2025-01-21": ["18:00"] },
+      { "2025-01-15": [] },
+      "2025-01-12"
+    );
+    expect(merged).toEqual({ "2025-01-21": ["18:00"], "2025-01-15": [] });
+  });
+});
+
+describe("getOpenIntervals", () => {
+  const event = (
+    change: "open" | "close",
+    time: string,
+    at: number
+  ): HistoryEvent => ({
+    facilityId: "default",
+    date: "2025-01-15",
+    time,
+    change,
+    at,
+  });
+
+  it("should pair each opening with the next closing of the slot", () => {
+    const intervals = getOpenIntervals([
+      event("close", "18:00", 300),
+      event("open", "18:00", 100),
+      event("open", "19:00", 200),
+      event("open", "18:00", 400),
+    ]);
+    expect(intervals.map((i) => [i.time, i.openedAt, i.closedAt])).toEqual([
+      ["18:00", 100, 300],
+      ["19:00", 200, undefined],
+      ["18:00", 400, undefined],
+    ]);
+  });
+
+  it("should ignore closings without a recorded opening", () => {
+    expect(getOpenIntervals([event("close", "18:00", 100)])).toEqual([]);
+  });
+});
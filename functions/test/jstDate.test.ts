@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTodayJST,
+  getJSTDateTime,
+  toTimestampJST,
+  isValidDate,
+  addDays,
+  weekdayOf,
+  formatMonthDay,
+  formatTimestampJST,
+} from "../src/lib/jstDate.js";
+
+describe("getTodayJST", () => {
+  it("should switch dates at midnight JST (15:00 UTC)", () => {
+    expect(getTodayJST(Date.UTC(2025, 11, 31, 14, 59))).toBe("2025-12-31");
+    expect(getTodayJST(Date.UTC(2025, 11, 31, 15, 0))).toBe("2026-01-01");
+  });
+});
+
+describe("getJSTDateTime", () => {
+  it("should return calendar fields in JST", () => {
+    // 2025-01-18 (Sat) 01:30 JST
+    expect(getJSTDateTime(Date.UTC(2025, 0, 17, 16, 30))).toEqual({
+      year: 2025,
+      month: 1,
+      day: 18,
+      weekday: 6,
+      hours: 1,
+      minutes: 30,
+    });
+  });
+});
+
+describe("toTimestampJST", () => {
+  it("should convert a JST date and time", () => {
+    expect(toTimestampJST("2025-01-18", "9:00")).toBe(
+      Date.UTC(2025, 0, 18, 0, 0)
+    );
+    expect(toTimestampJST("2025-01-18", "18:00～19:00")).toBe(
+      Date.UTC(2025, 0, 18, 9, 0)
+    );
+  });
+
+  it("should return null without a time", () => {
+    expect(toTimestampJST("2025-01-18", "終日")).toBeNull();
+  });
+});
+
+describe("isValidDate", () => {
+  it.each([
+    [2025, 1, 31, true],
+    [2025, 2, 28, true],
+    [2025, 2, 29, false],
+    [2028, 2, 29, true],
+    [2025, 2, 31, false],
+    [2025, 4, 31, false],
+    [2025, 0, 1, false],
+    [2025, 13, 1, false],
+    [2025, 1, 0, false],
+  ])("%i/%i/%i should be %s", (year, month, day, expected) => {
+    expect(isValidDate(year, month, day)).toBe(expected);
+  });
+});
+
+describe("addDays", () => {
+  it("should cross month and year boundaries", () => {
+    expect(addDays("2025-12-31", 1)).toBe("2026-01-01");
+    expect(addDays("2028-03-01", -1)).toBe("2028-02-29");
+    expect(addDays("2025-01-15", 0)).toBe("2025-01-15");
+  });
+});
+
+describe("formatting", () => {
+  it("should format dates and timestamps", () => {
+    expect(weekdayOf("2025-01-15")).toBe(3);
+    expect(formatMonthDay("2025-01-05")).toBe("1/5");
+    expect(formatTimestampJST(Date.UTC(2025, 0, 1, 9, 5))).toBe("1/1 18:05");
+  });
+});
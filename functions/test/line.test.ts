@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  replyMessage,
+  pushMessage,
+  LineApiError,
+  isRecipientRejected,
+  getChatTarget,
+} from "../src/lib/line.js";
+import type { LineAction } from "../src/types/index.js";
+
+/** Stubs fetch and returns the parsed request bodies */
+function stubFetch(): { bodies: unknown[] } {
+  const bodies: unknown[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: { body: string }) => {
+      bodies.push(JSON.parse(init.body));
+      return new Response("{}", { status: 200 });
+    })
+  );
+  return { bodies };
+}
+
+const start: LineAction = { type: "message", label: "開始", text: "開始" };
+
+describe("replyMessage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should send plain text as a text message", async () => {
+    const { bodies } = stubFetch();
+    await replyMessage("token", "reply", "hello");
+    expect(bodies[0]).toEqual({
+      replyToken: "reply",
+      messages: [{ type: "text", text: "hello" }],
+    });
+  });
+
+  it("should attach quick-reply items to the last message", async () => {
+    const { bodies } = stubFetch();
+    await replyMessage(
+      "token",
+      "reply",
+      [
+        { type: "text", text: "a" },
+        { type: "text", text: "b" },
+      ],
+      [start]
+    );
+    expect(bodies[0]).toEqual({
+      replyToken: "reply",
+      messages: [
+        { type: "text", text: "a" },
+        {
+          type: "text",
+          text: "b",
+          quickReply: { items: [{ type: "action", action: start }] },
+        },
+      ],
+    });
+  });
+
+  it("should limit quick replies to 13 items", async () => {
+    const { bodies } = stubFetch();
+    await replyMessage("token", "reply", "hello", Array(20).fill(start));
+    const [message] = (bodies[0] as { messages: { quickReply: { items: [] } }[] })
+      .messages;
+    expect(message.quickReply.items).toHaveLength(13);
+  });
+
+  it("should throw on API errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("bad", { status: 400 }))
+    );
+    await expect(replyMessage("token", "reply", "hello")).rejects.toThrow(
+      "LINE reply failed: 400 - bad"
+    );
+  });
+});
+
+describe("isRecipientRejected", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const pushError = async (status: number, body: string): Promise<unknown> => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body, { status }))
+    );
+    return pushMessage("token", "U123", "hello").catch((err: unknown) => err);
+  };
+
+  it("should carry the status of push failures", async () => {
+    const err = await pushError(403, "forbidden");
+    expect(err).toBeInstanceOf(LineApiError);
+    expect((err as LineApiError).status).toBe(403);
+  });
+
+  it("should treat 404 as a rejected recipient", async () => {
+    expect(isRecipientRejected(await pushError(404, ""))).toBe(true);
+  });
+
+  it("should not treat 403 as a rejected recipient", async () => {
+    // The channel lacks permission, which is not about this recipient
+    const body = JSON.stringify({
+      message: "Access to this API is not available for your account",
+    });
+    expect(isRecipientRejected(await pushError(403, body))).toBe(false);
+  });
+
+  it("should treat a 400 only for the recipient as rejected", async () => {
+    const invalidTo = JSON.stringify({
+      message: "The request body has 1 error(s)",
+      details: [{ message: "Invalid user ID", property: "to" }],
+    });
+    const invalidMessage = JSON.stringify({
+      message: "The request body has 1 error(s)",
+      details: [{ message: "Length must be 400", property: "messages[0]" }],
+    });
+    expect(isRecipientRejected(await pushError(400, invalidTo))).toBe(true);
+    expect(isRecipientRejected(await pushError(400, invalidMessage))).toBe(
+      false
+    );
+  });
+
+  it("should not treat server errors or other errors as rejected", async () => {
+    expect(isRecipientRejected(await pushError(500, ""))).toBe(false);
+    expect(isRecipientRejected(new Error("network"))).toBe(false);
+  });
+});
+
+describe("getChatTarget", () => {
+  it("should use the group or room instead of the sender", () => {
+    expect(
+      getChatTarget({ type: "group", groupId: "C123", userId: "U1" })
+    ).toEqual({ id: "C123", type: "group" });
+    expect(
+      getChatTarget({ type: "room", roomId: "R123", userId: "U1" })
+    ).toEqual({ id: "R123", type: "room" });
+  });
+
+  it("should use the user in a one-on-one chat", () => {
+    expect(getChatTarget({ type: "user", userId: "U1" })).toEqual({
+      id: "U1",
+      type: "user",
+    });
+  });
+
+  it("should return null without an ID", () => {
+    expect(getChatTarget(undefined)).toBeNull();
+    expect(getChatTarget({ type: "group" })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { canChangeChatSettings, getChatMembers } from "../src/lib/members.js";
+import type { ChatTarget, SubscriberDoc } from "../src/types/index.js";
+
+const group: ChatTarget = { id: "C1", type: "group" };
+
+const subscriber = (
+  userId: string,
+  overrides: Partial<SubscriberDoc> = {}
+): SubscriberDoc => ({
+  userId,
+  type: "user",
+  active: true,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const chat = subscriber("C1", {
+  type: "group",
+  registeredBy: "U-owner",
+  members: ["U-approved"],
+});
+
+describe("getChatMembers", () => {
+  it("should list the registering member first", () => {
+    expect(getChatMembers(chat)).toEqual(["U-owner", "U-approved"]);
+  });
+
+  it("should not list the registering member twice", () => {
+    expect(
+      getChatMembers({ ...chat, members: ["U-owner", "U-approved"] })
+    ).toEqual(["U-owner", "U-approved"]);
+  });
+
+  it("should handle groups without approved members", () => {
+    expect(getChatMembers({ ...chat, members: undefined })).toEqual([
+      "U-owner",
+    ]);
+  });
+});
+
+describe("canChangeChatSettings", () => {
+  it("should always allow one-on-one chats", () => {
+    const user: ChatTarget = { id: "U1", type: "user" };
+    expect(canChangeChatSettings(user, null, undefined, null)).toBe(true);
+  });
+
+  it.each(["U-owner", "U-approved"])(
+    "should allow member %s of a registered group",
+    (senderId) => {
+      expect(canChangeChatSettings(group, chat, senderId, null)).toBe(true);
+    }
+  );
+
+  it("should refuse an active subscriber who is not a member", () => {
+    const sender = subscriber("U-other");
+    expect(canChangeChatSettings(group, chat, "U-other", sender)).toBe(false);
+  });
+
+  it("should refuse senders LINE did not identify", () => {
+    expect(canChangeChatSettings(group, chat, undefined, null)).toBe(false);
+  });
+
+  it("should let registered users register a new or inactive group", () => {
+    const sender = subscriber("U-other");
+    const inactive = { ...chat, active: false };
+    expect(canChangeChatSettings(group, null, "U-other", sender)).toBe(true);
+    expect(canChangeChatSettings(group, inactive, "U-other", sender)).toBe(
+      true
+    );
+    expect(canChangeChatSettings(group, null, "U-other", null)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  nextLayoutHealth,
+  nextFetchBackoff,
+  isFetchBackedOff,
+} from "../src/lib/pageHealth.js";
+import type { PageHealthDoc } from "../src/types/index.js";
+
+const health = (
+  unrecognizedStreak: number,
+  alerted: boolean
+): PageHealthDoc => ({ unrecognizedStreak, alerted, updatedAt: 0 });
+
+describe("nextLayoutHealth", () => {
+  it("should count unrecognized pages without alerting below the threshold", () => {
+    expect(nextLayoutHealth(null, false, 3)).toEqual({
+      health: { unrecognizedStreak: 1, alerted: false },
+      alert: null,
+    });
+    expect(nextLayoutHealth(health(1, false), false, 3).alert).toBeNull();
+  });
+
+  it("should alert once when the threshold is reached", () => {
+    const reached = nextLayoutHealth(health(2, false), false, 3);
+    expect(reached).toEqual({
+      health: { unrecognizedStreak: 3, alerted: true },
+      alert: "broken",
+    });
+    const after = nextLayoutHealth(reached.health as PageHealthDoc, false, 3);
+    expect(after.alert).toBeNull();
+    expect(after.health.unrecognizedStreak).toBe(4);
+  });
+
+  it("should send a recovery alert after an alert", () => {
+    expect(nextLayoutHealth(health(5, true), true, 3)).toEqual({
+      health: { unrecognizedStreak: 0, alerted: false },
+      alert: "recovered",
+    });
+  });
+
+  it("should reset the streak silently when no alert was sent", () => {
+    expect(nextLayoutHealth(health(2, false), true, 3)).toEqual({
+      health: { unrecognizedStreak: 0, alerted: false },
+      alert: null,
+    });
+  });
+});
+
+describe("nextFetchBackoff", () => {
+  const MINUTE = 60 * 1000;
+  const now = 1_000_000;
+
+  it("should back off longer with every HTTP error in a row", () => {
+    const first = nextFetchBackoff(null, 503, now);
+    expect(first).toEqual({ httpFailures: 1, backoffUntil: now + 2 * MINUTE });
+    const second = nextFetchBackoff(
+      { ...health(0, false), ...first },
+      503,
+      now
+    );
+    expect(second).toEqual({
+      httpFailures: 2,
+      backoffUntil: now + 4 * MINUTE,
+    });
+  });
+
+  it("should end the streak without an HTTP error", () => {
+    const failing = { ...health(0, false), httpFailures: 3, backoffUntil: 0 };
+    expect(nextFetchBackoff(failing, undefined, now)).toBeNull();
+  });
+});
+
+describe("isFetchBackedOff", () => {
+  const MINUTE = 60 * 1000;
+  const backedOff = { ...health(0, false), backoffUntil: 10 * MINUTE };
+
+  it("should hold the facility back until the backoff ends", () => {
+    expect(isFetchBackedOff(backedOff, 5 * MINUTE)).toBe(true);
+    expect(isFetchBackedOff(backedOff, 10 * MINUTE)).toBe(false);
+  });
+
+  it("should not hold back facilities without a backoff", () => {
+    expect(isFetchBackedOff(null, 0)).toBe(false);
+    expect(isFetchBackedOff(health(2, true), 0)).toBe(false);
+  });
+});
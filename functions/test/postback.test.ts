@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { encodePostback, parsePostback } from "../src/lib/postback.js";
+import type { PostbackCommand } from "../src/lib/postback.js";
+
+describe("encodePostback / parsePostback", () => {
+  const commands: PostbackCommand[] = [
+    { action: "addDate", date: "2025-01-15" },
+    { action: "removeDate", date: "2025-01-15", facilityId: "sauna2" },
+    { action: "removeDate", date: "2025-01-15" },
+    { action: "booked", date: "2025-01-15", facilityId: "sauna2" },
+    { action: "booked", facilityId: "default" },
+    { action: "enable" },
+    { action: "disable" },
+    { action: "approveMember", userId: "U1234" },
+    {
+      action: "snooze",
+      date: "2025-01-15",
+      facilityId: "default",
+      minutes: 30,
+    },
+    { action: "snooze", facilityId: "default", minutes: 30 },
+  ];
+
+  it.each(commands)("should round-trip %o", (command) => {
+    expect(parsePostback(encodePostback(command))).toEqual(command);
+  });
+
+  it("should encode as query parameters", () => {
+    const data = encodePostback({
+      action: "removeDate",
+      date: "2025-01-15",
+      facilityId: "a",
+    });
+    expect(data).toBe("action=removeDate&date=2025-01-15&facilityId=a");
+  });
+});
+
+describe("parsePostback", () => {
+  it("should take the date from the date picker params", () => {
+    expect(parsePostback("action=addDate", { date: "2025-02-01" })).toEqual({
+      action: "addDate",
+      date: "2025-02-01",
+    });
+  });
+
+  it("should reject a date picker postback without a date", () => {
+    expect(parsePostback("action=addDate")).toBeNull();
+  });
+
+  it("should reject malformed dates and minutes", () => {
+    expect(parsePostback("action=removeDate&date=1/15")).toBeNull();
+    expect(parsePostback("action=snooze&minutes=abc")).toBeNull();
+    expect(parsePostback("action=snooze&minutes=-5")).toBeNull();
+    expect(parsePostback("action=approveMember")).toBeNull();
+  });
+
+  it("should reject unknown actions", () => {
+    expect(parsePostback("action=unknown")).toBeNull();
+    expect(parsePostback("hello")).toBeNull();
+  });
+});
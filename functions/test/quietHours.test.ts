@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  isInQuietHours,
+  holdOpenings,
+  isHeldOpeningOpen,
+  holdClosings,
+} from "../src/lib/quietHours.js";
+import type { HeldOpening, SlotRef } from "../src/types/index.js";
+
+/** Timestamp of a JST time on 2025-01-15 */
+const jst = (hours: number, minutes = 0): number =>
+  Date.UTC(2025, 0, 15, hours - 9, minutes);
+
+describe("isInQuietHours", () => {
+  const night = { start: "23:00", end: "07:00" };
+
+  it.each([
+    [23, 0, true],
+    [2, 30, true],
+    [6, 59, true],
+    [7, 0, false],
+    [12, 0, false],
+    [22, 59, false],
+  ])("%i:%i JST should be %s across midnight", (hours, minutes, expected) => {
+    expect(isInQuietHours(night, jst(hours, minutes))).toBe(expected);
+  });
+
+  it("should use JST rather than UTC", () => {
+    // 15:00 UTC is midnight in JST
+    expect(isInQuietHours(night, Date.UTC(2025, 0, 15, 15, 0))).toBe(true);
+    expect(isInQuietHours(night, Date.UTC(2025, 0, 15, 3, 0))).toBe(false);
+  });
+
+  it("should handle windows within a day", () => {
+    const afternoon = { start: "13:00", end: "15:00" };
+    expect(isInQuietHours(afternoon, jst(14))).toBe(true);
+    expect(isInQuietHours(afternoon, jst(15))).toBe(false);
+  });
+});
+
+describe("holdOpenings", () => {
+  const opening = (slotId: string, openedAt: number): HeldOpening => ({
+    facilityId: "default",
+    date: "2025-01-18",
+    slotId,
+    openedAt,
+  });
+
+  it("should add new openings", () => {
+    const openings = [opening("1/18 18:00", 1), opening("1/18 19:00", 2)];
+    expect(holdOpenings(undefined, openings)).toEqual(openings);
+  });
+
+  it("should keep the time a slot was first found", () => {
+    const held = holdOpenings([opening("1/18 18:00", 1)], [
+      opening("1/18 18:00", 5),
+      opening("1/18 20:00", 5),
+    ]);
+    expect(held).toEqual([opening("1/18 18:00", 1), opening("1/18 20:00", 5)]);
+  });
+
+  it("should tell the same slot of different facilities apart", () => {
+    const held = holdOpenings(
+      [opening("1/18 18:00", 1)],
+      [{ ...opening("1/18 18:00", 2), facilityId: "sauna2" }]
+    );
+    expect(held).toHaveLength(2);
+  });
+});
+
+describe("isHeldOpeningOpen", () => {
+  const currentOpen = {
+    "default:2025-01-18": ["1/18 18:00"],
+    "sauna2:*": ["*"],
+  };
+
+  it("should look up the slot under its target key", () => {
+    const opening: HeldOpening = {
+      facilityId: "default",
+      date: "2025-01-18",
+      slotId: "1/18 18:00",
+      openedAt: 0,
+    };
+    expect(isHeldOpeningOpen(opening, currentOpen)).toBe(true);
+    expect(
+      isHeldOpeningOpen({ ...opening, slotId: "1/18 19:00" }, currentOpen)
+    ).toBe(false);
+  });
+
+  it("should use the all-dates key without a date", () => {
+    const opening: HeldOpening = {
+      facilityId: "sauna2",
+      slotId: "*",
+      openedAt: 0,
+    };
+    expect(isHeldOpeningOpen(opening, currentOpen)).toBe(true);
+    expect(isHeldOpeningOpen(opening, {})).toBe(false);
+  });
+});
+
+describe("holdClosings", () => {
+  const slot = (slotId: string): SlotRef => ({
+    facilityId: "default",
+    date: "2025-01-18",
+    slotId,
+  });
+
+  it("should hold a slot that closes during quiet hours until reported", () => {
+    // The notified 18:00 slot closes at night
+    const night = holdClosings(undefined, [slot("1/18 18:00")], {
+      "default:2025-01-18": [],
+    });
+    expect(night).toEqual([slot("1/18 18:00")]);
+
+    // It stays held through later checks and is reported in the morning
+    const morning = holdClosings(night, [], { "default:2025-01-18": [] });
+    expect(morning).toEqual([slot("1/18 18:00")]);
+  });
+
+  it("should keep only the slot fields of notified slots", () => {
+    const notified = { ...slot("1/18 18:00"), notifiedAt: 1, reminders: 2 };
+    expect(holdClosings(undefined, [notified], {})).toEqual([
+      slot("1/18 18:00"),
+    ]);
+  });
+
+  it("should not hold a slot twice", () => {
+    const held = holdClosings([slot("1/18 18:00")], [slot("1/18 18:00")], {
+      "default:2025-01-18": [],
+    });
+    expect(held).toHaveLength(1);
+  });
+
+  it("should drop held slots that opened again", () => {
+    const held = holdClosings([slot("1/18 18:00")], [], {
+      "default:2025-01-18": ["1/18 18:00"],
+    });
+    expect(held).toEqual([]);
+  });
+
+  it("should drop held slots of targets no longer checked", () => {
+    expect(holdClosings([slot("1/18 18:00")], [], {})).toEqual([]);
+  });
+});
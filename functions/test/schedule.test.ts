@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  isCheckDue,
+  getIntervalMinutes,
+  getBackoffUntil,
+  parseResumeTime,
+  isResumeDue,
+} from "../src/lib/schedule.js";
+import type { WatchConfigDoc, WatchStateDoc } from "../src/types/index.js";
+
+const MINUTE = 60 * 1000;
+
+const config = (intervalMinutes?: number): WatchConfigDoc => ({
+  enabled: true,
+  ...(intervalMinutes !== undefined ? { intervalMinutes } : {}),
+  updatedAt: 0,
+});
+
+const state = (checkedAt: number): WatchStateDoc => ({
+  has: false,
+  checkedAt,
+});
+
+describe("getIntervalMinutes", () => {
+  it("should default to 2 minutes", () => {
+    expect(getIntervalMinutes(null)).toBe(2);
+    expect(getIntervalMinutes(config())).toBe(2);
+  });
+
+  it("should use the configured interval", () => {
+    expect(getIntervalMinutes(config(10))).toBe(10);
+  });
+});
+
+describe("isCheckDue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-15T09:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should be due when never checked", () => {
+    expect(isCheckDue(config(10), null)).toBe(true);
+  });
+
+  it("should skip runs until the interval has passed", () => {
+    const checkedAt = Date.now();
+
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(isCheckDue(config(5), state(checkedAt))).toBe(false);
+
+    vi.advanceTimersByTime(3 * MINUTE);
+    expect(isCheckDue(config(5), state(checkedAt))).toBe(false);
+
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(isCheckDue(config(5), state(checkedAt))).toBe(true);
+  });
+
+  it("should check every run with a 1-minute interval", () => {
+    const checkedAt = Date.now();
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(isCheckDue(config(1), state(checkedAt))).toBe(true);
+  });
+
+  it("should tolerate scheduler drift of a few seconds", () => {
+    // Previous check stamped 5 seconds after the scheduled minute
+    const checkedAt = Date.now() + 5 * 1000;
+    // Next due run fires 2 seconds after its scheduled minute
+    vi.advanceTimersByTime(2 * MINUTE + 2 * 1000);
+    expect(isCheckDue(config(2), state(checkedAt))).toBe(true);
+  });
+
+  it("should use the default interval when none is configured", () => {
+    const checkedAt = Date.now();
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(isCheckDue(config(), state(checkedAt))).toBe(false);
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(isCheckDue(config(), state(checkedAt))).toBe(true);
+  });
+
+  it("should accept an explicit clock", () => {
+    const checkedAt = Date.now();
+    const due = (now: number) => isCheckDue(config(10), state(checkedAt), now);
+    expect(due(checkedAt + 9 * MINUTE)).toBe(false);
+    expect(due(checkedAt + 10 * MINUTE)).toBe(true);
+  });
+});
+
+describe("getBackoffUntil", () => {
+  const now = 1_000_000;
+
+  it("should double the delay with every failure", () => {
+    expect(getBackoffUntil(1, now)).toBe(now + 2 * MINUTE);
+    expect(getBackoffUntil(2, now)).toBe(now + 4 * MINUTE);
+    expect(getBackoffUntil(3, now)).toBe(now + 8 * MINUTE);
+  });
+
+  it("should cap the delay at 60 minutes", () => {
+    expect(getBackoffUntil(10, now)).toBe(now + 60 * MINUTE);
+  });
+});
+
+describe("parseResumeTime", () => {
+  // 2025-01-15 18:30 JST
+  const now = Date.UTC(2025, 0, 15, 9, 30);
+
+  it.each([
+    ["2時間", 120],
+    ["30分", 30],
+    ["1時間30分", 90],
+    ["２時間", 120],
+    ["24時間", 24 * 60],
+  ])("should pause for %s", (input, minutes) => {
+    expect(parseResumeTime(input, now)).toBe(now + minutes * MINUTE);
+  });
+
+  it.each([
+    ["21:00まで", Date.UTC(2025, 0, 15, 12, 0)],
+    ["21時まで", Date.UTC(2025, 0, 15, 12, 0)],
+    ["21時30分まで", Date.UTC(2025, 0, 15, 12, 30)],
+    // Times already passed today mean tomorrow
+    ["7:00まで", Date.UTC(2025, 0, 15, 22, 0)],
+    ["18:30まで", Date.UTC(2025, 0, 16, 9, 30)],
+  ])("should pause until %s JST", (input, expected) => {
+    expect(parseResumeTime(input, now)).toBe(expected);
+  });
+
+  it.each(["", "0分", "25時間", "明日", "24:00まで", "21:60まで", "2日"])(
+    "should reject %s",
+    (input) => {
+      expect(parseResumeTime(input, now)).toBeNull();
+    }
+  );
+});
+
+describe("isResumeDue", () => {
+  const paused = (resumeAt?: number, enabled = false): WatchConfigDoc => ({
+    enabled,
+    ...(resumeAt !== undefined ? { resumeAt } : {}),
+    updatedAt: 0,
+  });
+
+  it("should resume at the resume time", () => {
+    expect(isResumeDue(paused(10 * MINUTE), 9 * MINUTE)).toBe(false);
+    // Scheduler runs drift by a few seconds
+    expect(isResumeDue(paused(10 * MINUTE), 10 * MINUTE - 5000)).toBe(true);
+    expect(isResumeDue(paused(10 * MINUTE), 11 * MINUTE)).toBe(true);
+  });
+
+  it("should not resume without a resume time or when running", () => {
+    expect(isResumeDue(paused(), 11 * MINUTE)).toBe(false);
+    expect(isResumeDue(paused(10 * MINUTE, true), 11 * MINUTE)).toBe(false);
+  });
+});
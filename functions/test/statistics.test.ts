@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregateOpenings,
+  findPeakWindow,
+  LEAD_TIME_BUCKETS,
+} from "../src/lib/statistics.js";
+import type { HistoryEvent } from "../src/types/index.js";
+
+/** Epoch milliseconds of a JST wall-clock time */
+const jst = (iso: string): number => Date.parse(`${iso}+09:00`);
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Builds an open event and, when `openMinutes` is given, its close event.
+ */
+const opening = (
+  openedAt: string,
+  date: string,
+  time: string,
+  openMinutes?: number
+): HistoryEvent[] => {
+  const at = jst(openedAt);
+  const base = { facilityId: "default", date, time };
+  return [
+    { ...base, change: "open", at },
+    ...(openMinutes !== undefined
+      ? [{ ...base, change: "close" as const, at: at + openMinutes * MINUTE }]
+      : []),
+  ];
+};
+
+describe("aggregateOpenings", () => {
+  it("should return empty statistics without events", () => {
+    const stats = aggregateOpenings([]);
+    expect(stats.openings).toBe(0);
+    expect(stats.byWeekday).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    expect(stats.byHour).toHaveLength(24);
+    expect(stats.byLeadTime).toEqual(LEAD_TIME_BUCKETS.map(() => 0));
+    expect(stats.medianOpenMinutes).toBeNull();
+  });
+
+  it("should count openings by JST weekday and hour", () => {
+    // 2025-01-14 is a Tuesday; 21:30 JST is 12:30 UTC
+    const events = [
+      ...opening("2025-01-14T21:30:00", "2025-01-18", "18:00", 5),
+      ...opening("2025-01-14T22:10:00", "2025-01-18", "19:00", 9),
+      // 2025-01-19 00:30 JST is still Saturday in UTC
+      ...opening("2025-01-19T00:30:00", "2025-01-25", "18:00"),
+    ];
+    const stats = aggregateOpenings(events);
+
+    expect(stats.openings).toBe(3);
+    expect(stats.byWeekday).toEqual([1, 0, 2, 0, 0, 0, 0]);
+    expect(stats.byHour[21]).toBe(1);
+    expect(stats.byHour[22]).toBe(1);
+    expect(stats.byHour[0]).toBe(1);
+    expect(stats.byWeekdayHour[2][21]).toBe(1);
+    expect(stats.byWeekdayHour[0][0]).toBe(1);
+  });
+
+  it("should bucket openings by lead time before the slot", () => {
+    const events = [
+      // 4 hours before
+      ...opening("2025-01-15T14:00:00", "2025-01-15", "18:00"),
+      // 2 days before
+      ...opening("2025-01-13T18:00:00", "2025-01-15", "18:00"),
+      // exactly 3 days before falls into the next bucket
+      ...opening("2025-01-12T18:00:00", "2025-01-15", "18:00"),
+      // 10 days before
+      ...opening("2025-01-05T18:00:00", "2025-01-15", "18:00"),
+      // noticed after the slot started
+      ...opening("2025-01-15T18:30:00", "2025-01-15", "18:00"),
+    ];
+    expect(aggregateOpenings(events).byLeadTime).toEqual([2, 1, 1, 1]);
+  });
+
+  it("should skip lead time for slots without a start time", () => {
+    const events = opening("2025-01-14T21:00:00", "2025-01-15", "終日");
+    const stats = aggregateOpenings(events);
+    expect(stats.openings).toBe(1);
+    expect(stats.byLeadTime).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should compute the median duration of closed openings", () => {
+    const odd = [
+      ...opening("2025-01-14T21:00:00", "2025-01-18", "18:00", 3),
+      ...opening("2025-01-14T21:10:00", "2025-01-18", "19:00", 7),
+      ...opening("2025-01-14T21:20:00", "2025-01-18", "20:00", 40),
+      // still open, not part of the median
+      ...opening("2025-01-14T21:30:00", "2025-01-18", "21:00"),
+    ];
+    expect(aggregateOpenings(odd).medianOpenMinutes).toBe(7);
+
+    const even = [
+      ...opening("2025-01-14T21:00:00", "2025-01-18", "18:00", 4),
+      ...opening("2025-01-14T21:10:00", "2025-01-18", "19:00", 10),
+    ];
+    expect(aggregateOpenings(even).medianOpenMinutes).toBe(7);
+  });
+
+  it("should accept events newest first", () => {
+    const events = opening("2025-01-14T21:00:00", "2025-01-18", "18:00", 6);
+    const stats = aggregateOpenings([...events].reverse());
+    expect(stats.openings).toBe(1);
+    expect(stats.medianOpenMinutes).toBe(6);
+  });
+});
+
+describe("findPeakWindow", () => {
+  it("should return null without openings", () => {
+    expect(findPeakWindow(aggregateOpenings([]))).toBeNull();
+  });
+
+  it("should find the two hours with the most openings", () => {
+    const events = [
+      ...opening("2025-01-14T21:05:00", "2025-01-18", "18:00"),
+      ...opening("2025-01-14T22:40:00", "2025-01-18", "19:00"),
+      ...opening("2025-01-21T21:15:00", "2025-01-25", "18:00"),
+      ...opening("2025-01-16T09:00:00", "2025-01-18", "20:00"),
+      ...opening("2025-01-16T09:30:00", "2025-01-18", "21:00"),
+    ];
+    expect(findPeakWindow(aggregateOpenings(events))).toEqual({
+      weekday: 2,
+      startHour: 21,
+      endHour: 23,
+      openings: 3,
+    });
+  });
+
+  it("should span midnight into the next weekday", () => {
+    const events = [
+      // Saturday 23:30 and Sunday 0:20
+      ...opening("2025-01-18T23:30:00", "2025-01-25", "18:00"),
+      ...opening("2025-01-19T00:20:00", "2025-01-25", "19:00"),
+      ...opening("2025-01-14T10:00:00", "2025-01-25", "20:00"),
+    ];
+    expect(findPeakWindow(aggregateOpenings(events))).toEqual({
+      weekday: 6,
+      startHour: 23,
+      endHour: 25,
+      openings: 2,
+    });
+  });
+
+  it("should support other window lengths", () => {
+    const events = [
+      ...opening("2025-01-14T21:05:00", "2025-01-18", "18:00"),
+      ...opening("2025-01-16T09:00:00", "2025-01-18", "20:00"),
+      ...opening("2025-01-16T09:30:00", "2025-01-18", "21:00"),
+    ];
+    expect(findPeakWindow(aggregateOpenings(events), 1)).toMatchObject({
+      weekday: 4,
+      startHour: 9,
+      endHour: 10,
+      openings: 2,
+    });
+  });
+});
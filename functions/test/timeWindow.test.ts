@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTimeWindow,
+  isTimeInWindow,
+  filterSlotsByWindow,
+  formatTimeWindow,
+} from "../src/lib/timeWindow.js";
+import type { OpenSlot } from "../src/types/index.js";
+
+describe("parseTimeWindow", () => {
+  it.each([
+    ["18:00-21:00", { start: "18:00", end: "21:00" }],
+    ["18-21", { start: "18:00", end: "21:00" }],
+    ["9:30〜12:00", { start: "09:30", end: "12:00" }],
+    ["18:00 ～ 21:00", { start: "18:00", end: "21:00" }],
+    ["22:00-2:00", { start: "22:00", end: "02:00" }],
+    ["21:00-24:00", { start: "21:00", end: "24:00" }],
+  ])("should parse %s", (input, expected) => {
+    expect(parseTimeWindow(input)).toEqual(expected);
+  });
+
+  it.each(["", "18:00", "18:00-18:00", "25:00-26:00", "18:75-21:00", "夜"])(
+    "should reject %s",
+    (input) => {
+      expect(parseTimeWindow(input)).toBeNull();
+    }
+  );
+});
+
+describe("isTimeInWindow", () => {
+  const evening = { start: "18:00", end: "21:00" };
+
+  it("should include the start and exclude the end", () => {
+    expect(isTimeInWindow("18:00", evening)).toBe(true);
+    expect(isTimeInWindow("20:30", evening)).toBe(true);
+    expect(isTimeInWindow("21:00", evening)).toBe(false);
+    expect(isTimeInWindow("12:00", evening)).toBe(false);
+  });
+
+  it("should read the start time of range labels", () => {
+    expect(isTimeInWindow("18:00～19:00", evening)).toBe(true);
+    expect(isTimeInWindow("17:00～18:00", evening)).toBe(false);
+  });
+
+  it("should wrap windows past midnight", () => {
+    const night = { start: "22:00", end: "02:00" };
+    expect(isTimeInWindow("23:00", night)).toBe(true);
+    expect(isTimeInWindow("1:00", night)).toBe(true);
+    expect(isTimeInWindow("12:00", night)).toBe(false);
+  });
+
+  it("should keep labels without a time", () => {
+    expect(isTimeInWindow("", evening)).toBe(true);
+  });
+});
+
+describe("filterSlotsByWindow", () => {
+  const slots: OpenSlot[] = [
+    { label: "1/15", time: "12:00", marker: "●" },
+    { label: "1/15", time: "18:00", marker: "▲" },
+    { label: "1/15", time: "21:00", marker: "●" },
+  ];
+
+  it("should drop slots outside the window", () => {
+    const window = { start: "18:00", end: "21:00" };
+    expect(filterSlotsByWindow(slots, window)).toEqual([slots[1]]);
+  });
+
+  it("should keep all slots without a window", () => {
+    expect(filterSlotsByWindow(slots, undefined)).toEqual(slots);
+  });
+});
+
+describe("formatTimeWindow", () => {
+  it("should format as start-end", () => {
+    expect(formatTimeWindow({ start: "18:00", end: "21:00" })).toBe(
+      "18:00-21:00"
+    );
+  });
+});
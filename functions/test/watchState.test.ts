@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import {
+  slotId,
+  findNewlyOpened,
+  hasOpenSlots,
+  nextFailureStreak,
+  slotRefKey,
+  reviewNotifiedSlots,
+  markNotified,
+} from "../src/lib/watchState.js";
+import type { NotifiedSlot, WatchStateDoc } from "../src/types/index.js";
+
+describe("slotId", () => {
+  it("should ignore the marker", () => {
+    expect(slotId({ label: "1/15", time: "18:00", marker: "●" })).toBe(
+      slotId({ label: "1/15", time: "18:00", marker: "▲" })
+    );
+  });
+});
+
+describe("findNewlyOpened", () => {
+  it("should report a date that opens while another date is already open", () => {
+    const previous = { "default:2025-01-15": ["1/15 18:00"] };
+    const current = {
+      "default:2025-01-15": ["1/15 18:00"],
+      "default:2025-01-16": ["1/16 19:00"],
+    };
+    expect(findNewlyOpened(previous, current)).toEqual({
+      "default:2025-01-16": ["1/16 19:00"],
+    });
+  });
+
+  it("should report a new slot on an already open date", () => {
+    const previous = { "default:2025-01-15": ["1/15 18:00"] };
+    const current = { "default:2025-01-15": ["1/15 18:00", "1/15 20:00"] };
+    expect(findNewlyOpened(previous, current)).toEqual({
+      "default:2025-01-15": ["1/15 20:00"],
+    });
+  });
+
+  it("should report a slot that closed and opened again", () => {
+    const closed = findNewlyOpened(
+      { "default:2025-01-15": ["1/15 18:00"] },
+      { "default:2025-01-15": [] }
+    );
+    expect(closed).toEqual({});
+    const reopened = findNewlyOpened(
+      { "default:2025-01-15": [] },
+      { "default:2025-01-15": ["1/15 18:00"] }
+    );
+    expect(reopened).toEqual({ "default:2025-01-15": ["1/15 18:00"] });
+  });
+
+  it("should not reset other dates when a date is added or removed", () => {
+    const previous = {
+      "default:2025-01-15": ["1/15 18:00"],
+      "default:2025-01-20": ["1/20 18:00"],
+    };
+    // 1/20 removed, 1/16 added (closed)
+    const current = {
+      "default:2025-01-15": ["1/15 18:00"],
+      "default:2025-01-16": [],
+    };
+    expect(findNewlyOpened(previous, current)).toEqual({});
+  });
+
+  it("should treat everything as new without a previous state", () => {
+    const current = { "default:*": ["1/15 18:00"] };
+    expect(findNewlyOpened(undefined, current)).toEqual(current);
+  });
+});
+
+describe("hasOpenSlots", () => {
+  it("should be true when any target has an open slot", () => {
+    expect(hasOpenSlots({ a: [], b: ["1/15 18:00"] })).toBe(true);
+    expect(hasOpenSlots({ a: [] })).toBe(false);
+    expect(hasOpenSlots({})).toBe(false);
+  });
+});
+
+describe("nextFailureStreak", () => {
+  const previous = (streak: Partial<WatchStateDoc>): WatchStateDoc => ({
+    has: false,
+    checkedAt: 0,
+    ...streak,
+  });
+
+  it("should start a streak on the first failure", () => {
+    const streak = nextFailureStreak(null, "HTTP 503: Service Unavailable", 100);
+    expect(streak).toEqual({
+      consecutiveFailures: 1,
+      lastError: "HTTP 503: Service Unavailable",
+      failingSince: 100,
+    });
+  });
+
+  it("should keep the start time while failures continue", () => {
+    const streak = nextFailureStreak(
+      previous({ consecutiveFailures: 2, failingSince: 100, lastError: "a" }),
+      "b",
+      500
+    );
+    expect(streak).toEqual({
+      consecutiveFailures: 3,
+      lastError: "b",
+      failingSince: 100,
+    });
+  });
+
+  it("should clear the streak after a success", () => {
+    expect(
+      nextFailureStreak(previous({ consecutiveFailures: 2 }), undefined, 500)
+    ).toEqual({});
+  });
+});
+
+describe("slotRefKey", () => {
+  it("should build the target key of a slot", () => {
+    expect(
+      slotRefKey({ facilityId: "default", date: "2025-01-15", slotId: "x" })
+    ).toBe("default:2025-01-15");
+    expect(slotRefKey({ facilityId: "sauna2", slotId: "x" })).toBe("sauna2:*");
+  });
+});
+
+describe("reviewNotifiedSlots", () => {
+  const MINUTE = 60 * 1000;
+  const notified = (
+    slotId: string,
+    notifiedAt: number,
+    reminders = 0
+  ): NotifiedSlot => ({
+    facilityId: "default",
+    date: "2025-01-15",
+    slotId,
+    notifiedAt,
+    reminders,
+  });
+  const policy = { intervalMinutes: 15, maxCount: 2 };
+
+  it("should sort slots into open and closed", () => {
+    const review = reviewNotifiedSlots(
+      [notified("1/15 18:00", 0), notified("1/15 19:00", 0)],
+      { "default:2025-01-15": ["1/15 18:00"] },
+      undefined,
+      5 * MINUTE
+    );
+    expect(review.open.map((s) => s.slotId)).toEqual(["1/15 18:00"]);
+    expect(review.closed.map((s) => s.slotId)).toEqual(["1/15 19:00"]);
+    expect(review.due).toEqual([]);
+  });
+
+  it("should drop slots of targets that were not checked", () => {
+    const review = reviewNotifiedSlots(
+      [notified("1/15 18:00", 0)],
+      {},
+      policy,
+      60 * MINUTE
+    );
+    expect(review).toEqual({ open: [], due: [], closed: [] });
+  });
+
+  it("should make open slots due after the interval", () => {
+    const currentOpen = { "default:2025-01-15": ["1/15 18:00"] };
+    const slots = [notified("1/15 18:00", 0)];
+    expect(
+      reviewNotifiedSlots(slots, currentOpen, policy, 10 * MINUTE).due
+    ).toEqual([]);
+    // Checks drift by a few seconds, so slightly early still counts
+    expect(
+      reviewNotifiedSlots(slots, currentOpen, policy, 15 * MINUTE - 10000).due
+    ).toEqual(slots);
+  });
+
+  it("should stop at the maximum count", () => {
+    const currentOpen = { "default:2025-01-15": ["1/15 18:00"] };
+    expect(
+      reviewNotifiedSlots(
+        [notified("1/15 18:00", 0, 2)],
+        currentOpen,
+        policy,
+        60 * MINUTE
+      ).due
+    ).toEqual([]);
+  });
+});
+
+describe("markNotified", () => {
+  const slot = (slotId: string, reminders: number): NotifiedSlot => ({
+    facilityId: "default",
+    date: "2025-01-15",
+    slotId,
+    notifiedAt: 0,
+    reminders,
+  });
+  const ref = (slotId: string) => ({
+    facilityId: "default",
+    date: "2025-01-15",
+    slotId,
+  });
+
+  it("should count reminders and start new openings over", () => {
+    const result = markNotified(
+      [slot("1/15 18:00", 1), slot("1/15 19:00", 2), slot("1/15 20:00", 0)],
+      [ref("1/15 19:00"), ref("1/15 21:00")],
+      [ref("1/15 18:00")],
+      500
+    );
+    expect(result).toEqual([
+      { ...slot("1/15 18:00", 2), notifiedAt: 500 },
+      slot("1/15 20:00", 0),
+      { ...slot("1/15 19:00", 0), notifiedAt: 500 },
+      { ...slot("1/15 21:00", 0), notifiedAt: 500 },
+    ]);
+  });
+});